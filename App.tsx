@@ -1,6 +1,13 @@
 import React, { useCallback, useReducer, useEffect, useRef, useState } from 'react';
-import { AppState, CleaningOptions, AppStateShape, AppAction, TokenUsage, DetectedPause } from './types';
-import { getDetailedCleaningSummary, processChunkWithWatchdog } from './services/geminiService';
+import { AppState, CleaningOptions, AppStateShape, AppAction, TokenUsage, DetectedPause, ChunkWarning, InvariantViolation, AppliedEdit, ChunkAuditAttempt, ChunkAuditRecord, CleaningJob, PiiRedactionEntry, CostLedgerEntry, PartialResultInfo, ExtractionReport, ExtractionOptions } from './types';
+import { getDetailedCleaningSummary, processChunkOffline, processChunkWithWatchdog } from './services/geminiService';
+import { isMessyChunk } from './services/messScore';
+import { estimateCost, getModelInfo, isAnyProviderConfigured, isProviderConfigured } from './services/aiProviders';
+import { getChunkCacheKey, getCachedChunk, putCachedChunk, countCachedChunks, purgeChunkCache } from './services/chunkCache';
+import { getRateLimiter } from './services/rateLimiter';
+import { runChunksInOrder, createPauseGate, PauseGate } from './services/chunkScheduler';
+import { addCostLedgerEntry, estimateChunksCost, isOverBudget, projectRunCostCents, usdToCents } from './services/costTracker';
+import { getChunkContext, stitchChunkOutputs } from './services/chunkSeams';
 import { fileParsers } from './services/parserService';
 import { Header } from './components/Header';
 import { FileUploadArea } from './components/FileUploadArea';
@@ -10,8 +17,12 @@ import { ErrorView } from './components/ErrorView';
 import { ConfigurationView } from './components/ConfigurationView';
 import { MeditationReview } from './components/MeditationReview';
 import { Footer } from './components/Footer';
-import { MAX_FILE_SIZE, CHUNK_SIZE, ETR_HISTORY_SIZE } from './constants';
-import { smartSplitText, formatEtr, sanitizeTextContent } from './services/utils';
+import { ResumeJobBanner } from './components/ResumeJobBanner';
+import { MAX_FILE_SIZE, ETR_HISTORY_SIZE, PARTIAL_RESULT_MARKER, MESS_THRESHOLD } from './constants';
+import { formatEtr, sanitizeTextContent, sha256Hex } from './services/utils';
+import { restoreKeepRegions } from './services/keepRegions';
+import { planChunks } from './services/chunkPlan';
+import { saveJob, loadJob, clearJob } from './services/jobStore';
 import { injectPauses } from './services/pauseInjector';
 import { scanForExplicitPauses, applyMeditationPauses } from './services/meditationScanner';
 
@@ -28,6 +39,15 @@ const initialState: AppStateShape = {
   summaryState: 'IDLE',
   cleaningSummary: [],
   tokenUsage: { prompt: 0, output: 0 },
+  suspiciousChunks: [],
+  invariantReports: [],
+  editLogs: [],
+  redactionLogs: [],
+  cacheStats: { hits: 0, savedTokens: 0 },
+  extractionReport: null,
+  partialResult: null,
+  budgetPause: null,
+  auditLog: null,
   // Meditation Mode
   processingMode: 'standard',
   detectedPauses: [],
@@ -43,7 +63,7 @@ function appReducer(state: AppStateShape, action: AppAction): AppStateShape {
     case 'UPDATE_EXTRACTION_PROGRESS':
       return { ...state, progress: action.payload.progress, etr: action.payload.etr };
     case 'EXTRACTION_SUCCESS':
-      return { ...state, appState: AppState.CONFIGURING, rawText: action.payload.rawText, progress: 100 };
+      return { ...state, appState: AppState.CONFIGURING, rawText: action.payload.rawText, extractionReport: action.payload.extractionReport ?? null, progress: 100 };
     case 'SET_ERROR':
       return { ...state, appState: AppState.ERROR, errorMessage: action.payload.message };
     case 'START_CLEANING':
@@ -56,10 +76,38 @@ function appReducer(state: AppStateShape, action: AppAction): AppStateShape {
         summaryState: 'IDLE',
         cleaningSummary: [],
         tokenUsage: { prompt: 0, output: 0 },
+        suspiciousChunks: [],
+        invariantReports: [],
+        editLogs: [],
+        redactionLogs: [],
+        cacheStats: { hits: 0, savedTokens: 0 },
+        partialResult: null,
+        budgetPause: null,
+        auditLog: null,
         etr: 'Berechne...',
         progress: 0,
         currentChunk: 0,
       };
+    case 'RESUME_CLEANING': {
+      const { job } = action.payload;
+      const processedChunks = job.chunkOutputs.length;
+      return {
+        ...initialState,
+        appState: AppState.CLEANING,
+        rawText: job.rawText,
+        fileName: job.fileName,
+        totalChunks: job.totalChunks,
+        currentChunk: processedChunks,
+        progress: job.totalChunks > 0 ? (processedChunks / job.totalChunks) * 100 : 0,
+        tokenUsage: job.tokenUsage,
+        suspiciousChunks: job.suspiciousChunks,
+        invariantReports: job.invariantReports,
+        editLogs: job.editLogs || [],
+        redactionLogs: job.redactionLogs || [],
+        processingMode: job.options.processingMode || 'standard',
+        etr: 'Berechne...',
+      };
+    }
     case 'UPDATE_CLEANING_PROGRESS':
       return { ...state, ...action.payload };
     case 'UPDATE_TOKEN_USAGE':
@@ -70,8 +118,42 @@ function appReducer(state: AppStateShape, action: AppAction): AppStateShape {
           output: state.tokenUsage.output + action.payload.output
         }
       };
+    case 'ADD_SUSPICIOUS_CHUNK':
+      return { ...state, suspiciousChunks: [...state.suspiciousChunks, action.payload] };
+    case 'ADD_INVARIANT_REPORT':
+      return { ...state, invariantReports: [...state.invariantReports, action.payload] };
+    case 'ADD_EDIT_LOG':
+      return { ...state, editLogs: [...state.editLogs, action.payload] };
+    case 'ADD_REDACTION_LOG':
+      return { ...state, redactionLogs: [...state.redactionLogs, action.payload] };
+    case 'START_AUDIT_LOG':
+      return { ...state, auditLog: { startedAt: Date.now(), options: action.payload.options, records: [] } };
+    case 'ADD_AUDIT_RECORD':
+      if (!state.auditLog) return state;
+      return { ...state, auditLog: { ...state.auditLog, records: [...state.auditLog.records, action.payload] } };
+    case 'RECORD_CACHE_HIT':
+      return {
+        ...state,
+        cacheStats: {
+          hits: state.cacheStats.hits + 1,
+          savedTokens: state.cacheStats.savedTokens + action.payload.savedTokens
+        }
+      };
+    case 'BUDGET_PAUSE':
+      return { ...state, budgetPause: action.payload };
+    case 'BUDGET_RESUME':
+      return { ...state, budgetPause: null };
     case 'CLEANING_SUCCESS':
-      return { ...state, appState: AppState.SUCCESS, cleanedText: action.payload.cleanedText };
+      return { ...state, appState: AppState.SUCCESS, cleanedText: action.payload.cleanedText, budgetPause: null };
+    case 'KEEP_PARTIAL_RESULT':
+      return {
+        ...state,
+        appState: AppState.SUCCESS,
+        cleanedText: action.payload.cleanedText,
+        partialResult: action.payload.info,
+        budgetPause: null,
+        summaryState: 'IDLE'
+      };
     case 'START_SUMMARY':
       return { ...state, summaryState: 'LOADING' };
     case 'SUMMARY_SUCCESS':
@@ -113,7 +195,8 @@ function appReducer(state: AppStateShape, action: AppAction): AppStateShape {
         ...state,
         appState: AppState.CONFIGURING,
         errorMessage: '',
-        isReviewingPauses: false
+        isReviewingPauses: false,
+        budgetPause: null
       };
 
     default:
@@ -123,19 +206,33 @@ function appReducer(state: AppStateShape, action: AppAction): AppStateShape {
 
 const App: React.FC = () => {
   const [state, dispatch] = useReducer(appReducer, initialState);
-  const { appState, rawText, cleanedText, errorMessage, fileName, progress, etr, currentChunk, totalChunks, summaryState, cleaningSummary, tokenUsage, processingMode, detectedPauses, isReviewingPauses } = state;
+  const { appState, rawText, cleanedText, errorMessage, fileName, progress, etr, currentChunk, totalChunks, summaryState, cleaningSummary, tokenUsage, suspiciousChunks, invariantReports, editLogs, redactionLogs, cacheStats, extractionReport, partialResult, budgetPause, auditLog, processingMode, detectedPauses, isReviewingPauses } = state;
 
   // Ref to store selected options for summary generation
   const optionsRef = useRef<CleaningOptions | null>(null);
 
+  // Ref to the sanitized text (keep regions still protected) awaiting the pause review
+  const pauseReviewRef = useRef<{ text: string; keepRegions: string[] } | null>(null);
+
   // Ref to manage process cancellation
   const abortControllerRef = useRef<AbortController | null>(null);
 
+  // Ref to the running job and its chunks (for keeping a partial result on abort)
+  // and to its budget gate (for continuing after the budget confirmation)
+  const activeRunRef = useRef<{ job: CleaningJob; chunks: string[]; keepRegions: string[]; budgetGate: PauseGate; budgetConfirmed: boolean } | null>(null);
+
   // Local state for offline info toggle
   const [showOfflineInfo, setShowOfflineInfo] = useState(false);
 
-  // Check for API Key to determine Demo Mode
-  const isDemoMode = !import.meta.env.VITE_GEMINI_API_KEY;
+  // Interrupted cleaning job that can be resumed (crash, reload, cancel)
+  const [resumableJob, setResumableJob] = useState<CleaningJob | null>(null);
+
+  useEffect(() => {
+    loadJob().then(setResumableJob);
+  }, []);
+
+  // Check for API Keys to determine Demo Mode
+  const isDemoMode = !isAnyProviderConfigured();
 
   // Prevent accidental tab closure during processing
   useEffect(() => {
@@ -159,6 +256,7 @@ const App: React.FC = () => {
     }
     dispatch({ type: 'RESET' });
     optionsRef.current = null;
+    pauseReviewRef.current = null;
   }, []);
 
   // Handler for canceling processing - returns to CONFIGURING state (not full reset)
@@ -169,6 +267,54 @@ const App: React.FC = () => {
     }
     // Go back to configuration instead of full reset - preserves rawText
     dispatch({ type: 'BACK_TO_CONFIG' });
+    // The job was saved after the last finished chunk - offer to resume it
+    loadJob().then(setResumableJob);
+  }, []);
+
+  // Handler for the budget confirmation: continue without further budget checks for this run
+  const handleBudgetContinue = useCallback(() => {
+    const run = activeRunRef.current;
+    if (!run) return;
+    run.budgetConfirmed = true;
+    run.budgetGate.resume();
+    dispatch({ type: 'BUDGET_RESUME' });
+  }, []);
+
+  // Handler for aborting but keeping the chunks that are already cleaned
+  const handleKeepPartialResult = useCallback((remainder: PartialResultInfo['remainder']) => {
+    const run = activeRunRef.current;
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort();
+      abortControllerRef.current = null;
+    }
+    if (!run) {
+      dispatch({ type: 'BACK_TO_CONFIG' });
+      return;
+    }
+
+    const processedChunks = run.job.chunkOutputs.length;
+    const processedText = sanitizeTextContent(stitchChunkOutputs(run.job.chunkOutputs, run.chunks, run.job.options));
+    const rawRest = run.chunks.slice(processedChunks).join('\n\n').trim();
+
+    let resultText = processedText;
+    if (run.job.options.processingMode !== 'meditation' && run.job.options.pauseConfig) {
+      resultText = injectPauses(resultText, run.job.options.pauseConfig);
+    }
+    // Clearly mark where AI processing stopped
+    if (remainder === 'raw' && rawRest) {
+      resultText = `${resultText}\n\n${PARTIAL_RESULT_MARKER}\n\n${rawRest}`;
+    }
+    resultText = restoreKeepRegions(resultText, run.keepRegions);
+
+    dispatch({
+      type: 'KEEP_PARTIAL_RESULT',
+      payload: {
+        cleanedText: resultText,
+        info: { processedChunks, totalChunks: run.job.totalChunks, remainder }
+      }
+    });
+    // The job stays saved - it can still be resumed later
+    loadJob().then(setResumableJob);
   }, []);
 
   // Handler for navigating back to configuration (preserves rawText)
@@ -179,10 +325,13 @@ const App: React.FC = () => {
   // Handler for Meditation Mode: Apply pauses after user review
   const handleMeditationPausesConfirm = useCallback((updatedPauses: DetectedPause[]) => {
     // Retrieve the stored sanitized text
-    const meditationText = (optionsRef.current as any)?.__meditationText || cleanedText;
+    const meditationText = pauseReviewRef.current?.text || cleanedText;
 
     // Apply the meditation pauses with user-adjusted durations
-    const textWithPauses = applyMeditationPauses(meditationText, updatedPauses);
+    // Keep regions come back last - pause detection never looks inside them
+    const keepRegions = pauseReviewRef.current?.keepRegions || [];
+    pauseReviewRef.current = null;
+    const textWithPauses = restoreKeepRegions(applyMeditationPauses(meditationText, updatedPauses), keepRegions);
 
     // Transition to success state
     dispatch({
@@ -191,7 +340,7 @@ const App: React.FC = () => {
     });
   }, [cleanedText]);
 
-  const handleFileProcess = useCallback(async (file: File) => {
+  const handleFileProcess = useCallback(async (file: File, extractionOptions?: ExtractionOptions) => {
     dispatch({ type: 'START_EXTRACTION', payload: { fileName: file.name } });
 
     const extractionStartTime = Date.now();
@@ -232,23 +381,25 @@ const App: React.FC = () => {
 
       const fileExtension = file.name.split('.').pop()?.toLowerCase() ?? '';
       let extractedText = '';
+      let report: ExtractionReport | null = null;
 
-      const parser = fileParsers[fileExtension];
+      // Word 97-2003 files are sometimes only recognizable by their MIME type
+      const parser = fileParsers[fileExtension] ?? (file.type === 'application/msword' ? fileParsers.doc : undefined);
 
       if (parser) {
         // Pass the progress callback to the parser
-        extractedText = await parser(file, onExtractionProgress);
-      } else if (fileExtension === 'doc' || file.type === 'application/msword' || fileExtension === 'odtx') {
+        extractedText = await parser(file, onExtractionProgress, parserReport => { report = parserReport; }, extractionOptions);
+      } else if (fileExtension === 'odtx') {
         throw new Error('Dieses Format wird nicht direkt unterstützt. Bitte speichern Sie die Datei in Ihrem Textverarbeitungsprogramm als .docx oder .odt und laden Sie sie erneut hoch.');
       } else {
-        throw new Error('Nicht unterstützter Dateityp. Bitte laden Sie eine PDF-, DOCX-, ODT-, RTF- oder TXT-Datei hoch.');
+        throw new Error('Nicht unterstützter Dateityp. Bitte laden Sie eine PDF-, DOCX-, DOC-, ODT-, EPUB-, RTF- oder TXT-Datei hoch.');
       }
 
       if (!extractedText.trim()) {
         throw new Error('Die Datei scheint keinen Text zu enthalten.');
       }
 
-      dispatch({ type: 'EXTRACTION_SUCCESS', payload: { rawText: extractedText } });
+      dispatch({ type: 'EXTRACTION_SUCCESS', payload: { rawText: extractedText, extractionReport: report } });
 
     } catch (error: any) {
       console.error("Error processing file:", error);
@@ -256,11 +407,15 @@ const App: React.FC = () => {
     }
   }, []);
 
-  const handleStartCleaning = useCallback(async (options: CleaningOptions) => {
+  const handleStartCleaning = useCallback(async (options: CleaningOptions, resumeJob?: CleaningJob) => {
+    // A resumed job continues with its own text and options
+    const sourceText = resumeJob ? resumeJob.rawText : rawText;
+    const jobOptions = resumeJob ? resumeJob.options : options;
+
     // Safety check: Force chapterStyle to 'keep' in meditation mode
     const safeOptions: CleaningOptions = {
-      ...options,
-      chapterStyle: options.processingMode === 'meditation' ? 'keep' : options.chapterStyle,
+      ...jobOptions,
+      chapterStyle: jobOptions.processingMode === 'meditation' ? 'keep' : jobOptions.chapterStyle,
     };
     optionsRef.current = safeOptions;
 
@@ -273,77 +428,283 @@ const App: React.FC = () => {
     const signal = abortController.signal;
 
     // Use smart chunking to respect paragraph/sentence boundaries
-    const chunks = smartSplitText(rawText, CHUNK_SIZE);
+    // Chunk size is limited by the output/context limits of the chosen model
+    const modelInfo = getModelInfo(safeOptions.aiProvider, safeOptions.model, safeOptions.localLlm);
+    // {{keep}} regions are replaced by placeholders before splitting and restored at the very end
+    const { chunks, keepRegions, chunkSize, chunkTokens } = planChunks(sourceText, safeOptions, resumeJob ?? undefined);
+
+    // Resume only if the text splits into the same chunks as before
+    const isResume = !!resumeJob && resumeJob.totalChunks === chunks.length;
+    const job: CleaningJob = isResume ? { ...resumeJob!, chunkOutputs: [...resumeJob!.chunkOutputs] } : {
+      fileName: resumeJob ? resumeJob.fileName : fileName,
+      rawText: sourceText,
+      rawTextHash: await sha256Hex(sourceText),
+      options: safeOptions,
+      chunkSize,
+      chunkTokens,
+      totalChunks: chunks.length,
+      chunkOutputs: [],
+      tokenUsage: { prompt: 0, output: 0 },
+      suspiciousChunks: [],
+      invariantReports: [],
+      editLogs: [],
+      redactionLogs: [],
+      updatedAt: Date.now()
+    };
+    setResumableJob(null);
+    // Budget: new AI requests wait at this gate while the confirmation is open
+    const budgetGate = createPauseGate();
+    const run = { job, chunks, keepRegions, budgetGate, budgetConfirmed: false };
+    activeRunRef.current = run;
+
+    if (isResume) {
+      dispatch({ type: 'RESUME_CLEANING', payload: { job } });
+    } else {
+      dispatch({ type: 'START_CLEANING', payload: { rawText: sourceText, totalChunks: chunks.length } });
+      await saveJob(job);
+    }
 
-    dispatch({ type: 'START_CLEANING', payload: { rawText, totalChunks: chunks.length } });
+    // AUDIT: Opt-in record of prompts and responses (AI runs only, this run's chunks only)
+    const recordAudit = !!safeOptions.auditLog && isProviderConfigured(safeOptions.aiProvider);
+    if (recordAudit) {
+      dispatch({ type: 'START_AUDIT_LOG', payload: { options: safeOptions } });
+    }
 
     let accumulatedText = '';
 
-    // Variables for dynamic ETR calculation
-    const chunkTimes: number[] = [];
-    let startTime = Date.now();
+    // Chunk cache only for AI results (offline mode is fast and deterministic)
+    const useChunkCache = isProviderConfigured(safeOptions.aiProvider);
 
-    try {
-      for (let i = 0; i < chunks.length; i++) {
-        // Check for cancellation at the start of each chunk
-        if (signal.aborted) {
-          console.log("Process aborted by user.");
-          return;
-        }
+    // Parallel processing: the rate limiter decides how many chunks run at once
+    const rateLimiter = getRateLimiter(safeOptions.aiProvider);
+    const isOnline = isProviderConfigured(safeOptions.aiProvider);
+    const getConcurrency = () => isOnline ? rateLimiter.getConcurrency() : 1;
+
+    // HYBRID: Only messy chunks go to the AI
+    const needsAi = (i: number) => isOnline && (!safeOptions.hybridMode || isMessyChunk(chunks[i], safeOptions.messThreshold ?? MESS_THRESHOLD));
 
-        const chunkStartTime = Date.now();
+    // Cost of this run (a resumed job has paid for its first chunks already)
+    const runUsage: TokenUsage = { prompt: 0, output: 0 };
+    let runProcessedChunks = 0;
+    const getRunCostCents = () => usdToCents(estimateCost(modelInfo, runUsage.prompt, runUsage.output));
 
-        // Callback to receive usage metadata from the service
-        const onUsage = (usage: TokenUsage) => {
-          dispatch({ type: 'UPDATE_TOKEN_USAGE', payload: usage });
+    const pauseForBudget = (actualCents: number, projectedCents: number) => {
+      budgetGate.pause();
+      dispatch({ type: 'BUDGET_PAUSE', payload: { budgetCents: safeOptions.budgetCents!, actualCents, projectedCents } });
+    };
+
+    // Checks actual and projected cost after every chunk - pauses once, until the user confirms
+    const checkBudget = () => {
+      if (run.budgetConfirmed || budgetGate.isPaused() || runProcessedChunks === 0) return;
+      const actualCents = getRunCostCents();
+      const projectedCents = projectRunCostCents(actualCents, runProcessedChunks, chunks.length - job.chunkOutputs.length);
+      if (isOverBudget(safeOptions.budgetCents, actualCents, projectedCents)) {
+        pauseForBudget(actualCents, projectedCents);
+      }
+    };
+
+    // Before the first request: estimate from the chunk lengths
+    if (isOnline && safeOptions.budgetCents) {
+      const pendingAiChunks = chunks.slice(job.chunkOutputs.length).filter((_, offset) => needsAi(job.chunkOutputs.length + offset));
+      const projectedCents = usdToCents(estimateChunksCost(pendingAiChunks, safeOptions, modelInfo));
+      if (isOverBudget(safeOptions.budgetCents, projectedCents)) {
+        pauseForBudget(0, projectedCents);
+      }
+    }
+
+    // Dynamic ETR: with parallel chunks the time between completions counts, not the duration of a single chunk
+    const completionTimes: number[] = [Date.now()];
+
+    interface ChunkResult {
+      content: string;
+      warnings: ChunkWarning[];
+      violations: InvariantViolation[];
+      edits: AppliedEdit[];
+      redactions?: { entries: PiiRedactionEntry[]; leaks: string[] };
+      audit?: Omit<ChunkAuditRecord, 'chunkIndex' | 'output'>;
+    }
+
+    const processChunk = async (i: number): Promise<ChunkResult> => {
+      // Callback to receive usage metadata from the service
+      const chunkUsage: TokenUsage = { prompt: 0, output: 0 };
+      const onUsage = (usage: TokenUsage) => {
+        chunkUsage.prompt += usage.prompt;
+        chunkUsage.output += usage.output;
+        job.tokenUsage = { prompt: job.tokenUsage.prompt + usage.prompt, output: job.tokenUsage.output + usage.output };
+        runUsage.prompt += usage.prompt;
+        runUsage.output += usage.output;
+        dispatch({ type: 'UPDATE_TOKEN_USAGE', payload: usage });
+      };
+
+      // Warnings (e.g. drift) are collected and recorded once the chunk text is final
+      const warnings: ChunkWarning[] = [];
+      const onWarning = (warning: ChunkWarning) => {
+        warnings.push(warning);
+      };
+      let violations: InvariantViolation[] = [];
+      const onViolations = (chunkViolations: InvariantViolation[]) => {
+        violations = chunkViolations;
+      };
+      let edits: AppliedEdit[] = [];
+      const onEdits = (chunkEdits: AppliedEdit[]) => {
+        edits = chunkEdits;
+      };
+      let redactions: ChunkResult['redactions'];
+      const onRedactions = (entries: PiiRedactionEntry[], leaks: string[]) => {
+        redactions = { entries, leaks };
+      };
+      const startedAt = Date.now();
+      let auditAttempts: ChunkAuditAttempt[] = [];
+      let fallbackReason: string | undefined;
+      const onAudit = recordAudit ? (attempts: ChunkAuditAttempt[], reason?: string) => {
+        auditAttempts = attempts;
+        fallbackReason = reason;
+      } : undefined;
+      const auditEntry = (source: ChunkAuditRecord['source']) => recordAudit
+        ? { source, startedAt, durationMs: Date.now() - startedAt, attempts: auditAttempts, fallbackReason }
+        : undefined;
+
+      // HYBRID: Well-formatted chunks are only cleaned offline, the AI gets the messy ones
+      if (isOnline && !needsAi(i)) {
+        const content = await processChunkOffline(chunks[i], safeOptions, signal);
+        return { content, warnings: [], violations: [], edits: [], audit: auditEntry('offline') };
+      }
+
+      // Tail of the previous and head of the next chunk, so the AI can repair cuts at the edges
+      const context = getChunkContext(chunks, i);
+
+      // Use the cached result of an earlier run if available
+      const cacheKey = useChunkCache ? await getChunkCacheKey(chunks[i], safeOptions, context) : '';
+      const cached = useChunkCache ? await getCachedChunk(cacheKey) : undefined;
+      if (cached) {
+        dispatch({ type: 'RECORD_CACHE_HIT', payload: { savedTokens: cached.usage.prompt + cached.usage.output } });
+        return {
+          content: cached.text,
+          warnings: cached.warnings,
+          violations: cached.violations,
+          edits: cached.edits || [],
+          redactions: cached.redactions && { entries: cached.redactions, leaks: [] },
+          audit: auditEntry('cache')
         };
+      }
 
-        // Use Watchdog wrapper from Service
-        try {
-          const chunkContent = await processChunkWithWatchdog(chunks[i], safeOptions, signal, onUsage);
-          accumulatedText += chunkContent;
-        } catch (err: any) {
-          if (signal.aborted) return;
-          throw err; // Should not happen with fallback, unless offline fails or fatal error
-        }
+      if (isOnline) {
+        // Wait while the budget confirmation is open
+        await budgetGate.wait(signal);
+      }
 
-        // Calculate progress and ETR
-        const chunkEndTime = Date.now();
-        const duration = (chunkEndTime - chunkStartTime) / 1000; // seconds
-        chunkTimes.push(duration);
+      // Use Watchdog wrapper from Service - every request it sends waits for the rate limiter
+      const content = await processChunkWithWatchdog(chunks[i], safeOptions, signal, onUsage, onWarning, onViolations, context, onEdits, onAudit, onRedactions);
+      const resolvedByFallback = warnings.some(w => w.resolution === 'fallback');
+      // A fallback after failed attempts (e.g. repeated 429s) must not relax the rate limit again
+      if (isOnline && !resolvedByFallback) {
+        rateLimiter.reportSuccess();
+      }
 
-        // Keep only last N times for moving average
-        if (chunkTimes.length > ETR_HISTORY_SIZE) {
-          chunkTimes.shift();
-        }
+      // Offline fallbacks are not cached - the next run should try the AI again
+      if (useChunkCache && !signal.aborted && !resolvedByFallback) {
+        await putCachedChunk({
+          key: cacheKey,
+          text: content,
+          usage: chunkUsage,
+          warnings,
+          violations,
+          edits,
+          redactions: redactions?.entries,
+          createdAt: Date.now()
+        });
+      }
 
-        // Average seconds per chunk based on recent history
-        const avgTimePerChunk = chunkTimes.reduce((a, b) => a + b, 0) / chunkTimes.length;
-        const remainingChunks = chunks.length - (i + 1);
-        const estimatedRemainingTime = avgTimePerChunk * remainingChunks;
+      // Cache hits are instant and would distort the estimate
+      completionTimes.push(Date.now());
+      if (completionTimes.length > ETR_HISTORY_SIZE + 1) {
+        completionTimes.shift();
+      }
 
-        const processedChunks = i + 1;
-        const progressPercentage = (processedChunks / chunks.length) * 100;
+      return { content, warnings, violations, edits, redactions, audit: auditEntry('ai') };
+    };
 
-        if (!signal.aborted) {
-          dispatch({
-            type: 'UPDATE_CLEANING_PROGRESS',
-            payload: {
-              progress: progressPercentage,
-              etr: formatEtr(estimatedRemainingTime),
-              currentChunk: processedChunks,
-            }
-          });
-        }
+    // Results arrive in chunk order, so text, job and progress stay consistent
+    const recordChunk = async (i: number, result: ChunkResult) => {
+      const excerpt = result.content.trim().substring(0, 80);
+      for (const warning of result.warnings) {
+        const suspicious = { ...warning, chunkIndex: i, excerpt };
+        job.suspiciousChunks.push(suspicious);
+        dispatch({ type: 'ADD_SUSPICIOUS_CHUNK', payload: suspicious });
+      }
+      if (result.violations.length > 0) {
+        const report = { chunkIndex: i, excerpt, violations: result.violations };
+        job.invariantReports.push(report);
+        dispatch({ type: 'ADD_INVARIANT_REPORT', payload: report });
+      }
+      if (result.edits.length > 0) {
+        const editLog = { chunkIndex: i, excerpt, edits: result.edits };
+        job.editLogs = [...(job.editLogs || []), editLog];
+        dispatch({ type: 'ADD_EDIT_LOG', payload: editLog });
+      }
+      if (result.redactions && result.redactions.entries.length > 0) {
+        const redactionLog = { chunkIndex: i, ...result.redactions };
+        job.redactionLogs = [...(job.redactionLogs || []), redactionLog];
+        dispatch({ type: 'ADD_REDACTION_LOG', payload: redactionLog });
+      }
+      if (result.audit) {
+        dispatch({ type: 'ADD_AUDIT_RECORD', payload: { ...result.audit, chunkIndex: i, output: result.content } });
+      }
 
-        // Safety Brake: Artificial delay to prevent Rate Limits (Request Per Minute)
-        // Only if in Online Mode (API Key present) and not the last chunk
-        if (import.meta.env.VITE_GEMINI_API_KEY && i < chunks.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, 2000));
-        }
+      // Persist progress so the job can be resumed after a crash, reload or cancel
+      job.chunkOutputs.push(result.content);
+      job.updatedAt = Date.now();
+      await saveJob(job);
+      runProcessedChunks++;
+      checkBudget();
+
+      // Average seconds between recent completions (already reflects the parallelism)
+      const intervals = completionTimes.length - 1;
+      const avgTimePerChunk = intervals > 0
+        ? (completionTimes[completionTimes.length - 1] - completionTimes[0]) / 1000 / intervals
+        : 0;
+      const processedChunks = i + 1;
+      const remainingChunks = chunks.length - processedChunks;
+      const estimatedRemainingTime = avgTimePerChunk * remainingChunks;
+      const progressPercentage = (processedChunks / chunks.length) * 100;
+
+      if (!signal.aborted) {
+        dispatch({
+          type: 'UPDATE_CLEANING_PROGRESS',
+          payload: {
+            progress: progressPercentage,
+            etr: formatEtr(estimatedRemainingTime),
+            currentChunk: processedChunks,
+          }
+        });
       }
+    };
 
-      if (signal.aborted) return;
+    // Every run ends up in the cost ledger (completed, aborted or failed)
+    let runStatus: CostLedgerEntry['status'] = 'aborted';
+
+    try {
+      await runChunksInOrder({
+        startIndex: job.chunkOutputs.length,
+        endIndex: chunks.length,
+        getConcurrency,
+        signal,
+        worker: processChunk,
+        onOrderedResult: recordChunk,
+      });
+
+      if (signal.aborted) {
+        console.log("Process aborted by user.");
+        return;
+      }
+
+      runStatus = 'completed';
+
+      // Repair the seams between the chunks (hyphenation, sentences cut by the split)
+      accumulatedText = stitchChunkOutputs(job.chunkOutputs, chunks, safeOptions);
+
+      // All chunks are done - nothing left to resume
+      await clearJob();
 
       await new Promise(resolve => setTimeout(resolve, 100));
       // Pre-sanitize before storing in state to match UI/Download EXACTLY
@@ -369,7 +730,7 @@ const App: React.FC = () => {
 
         // Show pause review UI (user will set durations)
         // Store the sanitized text temporarily for later processing
-        optionsRef.current = { ...safeOptions, __meditationText: fullySanitizedText } as any;
+        pauseReviewRef.current = { text: fullySanitizedText, keepRegions };
 
         dispatch({
           type: 'START_PAUSE_REVIEW',
@@ -385,14 +746,28 @@ const App: React.FC = () => {
           fullySanitizedText = injectPauses(fullySanitizedText, safeOptions.pauseConfig);
         }
 
+        fullySanitizedText = restoreKeepRegions(fullySanitizedText, keepRegions);
         dispatch({ type: 'CLEANING_SUCCESS', payload: { cleanedText: fullySanitizedText } });
       }
 
     } catch (error: any) {
       if (signal.aborted) return;
+      runStatus = 'error';
       console.error("Error during cleaning:", error);
       dispatch({ type: 'SET_ERROR', payload: { message: error.message || 'Ein unbekannter Fehler ist aufgetreten.' } });
+      // Finished chunks are saved - the job can be resumed from the configuration view
+      setResumableJob(job);
       return;
+    } finally {
+      addCostLedgerEntry({
+        date: Date.now(),
+        fileName: job.fileName,
+        provider: safeOptions.aiProvider,
+        model: modelInfo.id,
+        tokenUsage: runUsage,
+        costUsd: estimateCost(modelInfo, runUsage.prompt, runUsage.output),
+        status: runStatus,
+      });
     }
 
     // Fetch Summary asynchronously
@@ -400,7 +775,7 @@ const App: React.FC = () => {
       if (signal.aborted) return;
       dispatch({ type: 'START_SUMMARY' });
       // Pass options to getDetailedCleaningSummary for the fallback mode
-      const summary = await getDetailedCleaningSummary(rawText, accumulatedText, safeOptions);
+      const summary = await getDetailedCleaningSummary(sourceText, restoreKeepRegions(accumulatedText, keepRegions), safeOptions);
       if (!signal.aborted) {
         dispatch({ type: 'SUMMARY_SUCCESS', payload: { summary } });
       }
@@ -411,7 +786,18 @@ const App: React.FC = () => {
       }
     }
 
-  }, [rawText]);
+  }, [rawText, fileName]);
+
+  const handleResumeJob = useCallback(() => {
+    if (resumableJob) {
+      handleStartCleaning(resumableJob.options, resumableJob);
+    }
+  }, [resumableJob, handleStartCleaning]);
+
+  const handleDiscardJob = useCallback(async () => {
+    await clearJob();
+    setResumableJob(null);
+  }, []);
 
   const handleClearSavedSessions = (e: React.MouseEvent) => {
     e.preventDefault();
@@ -451,15 +837,46 @@ const App: React.FC = () => {
   };
 
 
+  const handleClearChunkCache = async (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    try {
+      const count = await countCachedChunks();
+      if (count === 0) {
+        alert('Der KI-Cache ist leer.');
+        return;
+      }
+
+      if (window.confirm(`Möchten Sie ${count} zwischengespeicherte KI-Ergebnisse löschen? Beim nächsten Durchlauf werden alle Abschnitte erneut an die KI gesendet.`)) {
+        await purgeChunkCache();
+        alert('KI-Cache wurde geleert.');
+      }
+    } catch (err) {
+      console.error("Error clearing chunk cache:", err);
+      alert('Fehler beim Zugriff auf den KI-Cache (IndexedDB).');
+    }
+  };
+
+  // Live cost of the running job (priced with the job's model)
+  const liveCostCents = optionsRef.current && tokenUsage.prompt + tokenUsage.output > 0
+    ? usdToCents(estimateCost(getModelInfo(optionsRef.current.aiProvider, optionsRef.current.model, optionsRef.current.localLlm), tokenUsage.prompt, tokenUsage.output))
+    : undefined;
+
   const renderContent = () => {
     switch (appState) {
       case AppState.IDLE:
-        return <FileUploadArea onFileSelect={handleFileProcess} />;
+        return (
+          <>
+            {resumableJob && <ResumeJobBanner job={resumableJob} onResume={handleResumeJob} onDiscard={handleDiscardJob} />}
+            <FileUploadArea onFileSelect={handleFileProcess} />
+          </>
+        );
       case AppState.EXTRACTING:
         // Pass 0/0 as chunks but real progress/etr - no cancel during extraction (too fast)
         return <ProcessingView currentChunk={0} totalChunks={0} progress={progress} etr={etr} />;
       case AppState.CLEANING:
-        return <ProcessingView currentChunk={currentChunk} totalChunks={totalChunks} progress={progress} etr={etr} onCancel={handleCancelProcessing} />;
+        return <ProcessingView currentChunk={currentChunk} totalChunks={totalChunks} progress={progress} etr={etr} cacheStats={cacheStats} costCents={liveCostCents} budgetPause={budgetPause} onBudgetContinue={handleBudgetContinue} onCancel={handleCancelProcessing} onKeepPartial={handleKeepPartialResult} />;
       case AppState.CONFIGURING:
         // Check if we're in Meditation Review mode
         if (isReviewingPauses && detectedPauses.length > 0) {
@@ -469,7 +886,14 @@ const App: React.FC = () => {
             onCancel={resetApp}
           />;
         }
-        return <ConfigurationView rawText={rawText} onStartCleaning={handleStartCleaning} onCancel={resetApp} />;
+        return (
+          <>
+            {resumableJob && resumableJob.rawText === rawText && (
+              <ResumeJobBanner job={resumableJob} onResume={handleResumeJob} onDiscard={handleDiscardJob} />
+            )}
+            <ConfigurationView rawText={rawText} extractionReport={extractionReport} onStartCleaning={handleStartCleaning} onCancel={resetApp} />
+          </>
+        );
       case AppState.SUCCESS:
         return <ResultView
           text={cleanedText}
@@ -479,6 +903,12 @@ const App: React.FC = () => {
           summary={cleaningSummary}
           summaryState={summaryState}
           tokenUsage={tokenUsage}
+          suspiciousChunks={suspiciousChunks}
+          invariantReports={invariantReports}
+          editLogs={editLogs}
+          redactionLogs={redactionLogs}
+          auditLog={auditLog}
+          partialResult={partialResult}
           onTextChange={(newText) => dispatch({ type: 'UPDATE_CLEANED_TEXT', payload: { text: newText } })}
         />;
       case AppState.ERROR:
@@ -538,7 +968,7 @@ const App: React.FC = () => {
                   Online-Modus (KI)
                 </h4>
                 <ul className="list-disc list-inside space-y-1 text-blue-300 ml-1">
-                  <li><strong>Technologie:</strong> Google Gemini AI (LLM)</li>
+                  <li><strong>Technologie:</strong> Google Gemini, OpenAI, Qwen, Grok oder DeepSeek (LLM)</li>
                   <li><strong>Qualität:</strong> Kontextsensitiv & intelligent</li>
                   <li><strong>Gut für:</strong> Satzreparatur, Listen-Umschreibung, OCR-Korrektur</li>
                   <li><strong>Benötigt:</strong> API-Key & Internetverbindung</li>
@@ -551,7 +981,7 @@ const App: React.FC = () => {
       <main className="w-full max-w-4xl mt-8 flex-grow flex flex-col items-center">
         {renderContent()}
       </main>
-      <Footer onClearSessions={handleClearSavedSessions} />
+      <Footer onClearSessions={handleClearSavedSessions} onClearCache={handleClearChunkCache} />
     </div>
   );
 };
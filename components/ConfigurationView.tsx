@@ -1,27 +1,31 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { CleaningOptions, CustomReplacement, PauseConfiguration, ProcessingMode } from '../types';
+import { CleaningOptions, CustomReplacement, ExtractionReport, GlossaryTerm, LocalLlmSettings, OutputMode, PauseConfiguration, ProcessingMode } from '../types';
 import { SettingsIcon, ScissorsIcon, PlusIcon, TrashIcon } from './icons';
-import { PREVIEW_LENGTH } from '../constants';
+import { PREVIEW_LENGTH, DRIFT_THRESHOLD, EDIT_MODE_OUTPUT_RATIO, MESS_THRESHOLD } from '../constants';
 import { COMMON_ABBREVIATIONS, applyCustomReplacements } from '../services/utils';
+import { isMessyChunk } from '../services/messScore';
+import { estimateTokens } from '../services/tokenEstimator';
+import { planChunks } from '../services/chunkPlan';
 import { PauseControls } from './PauseControls';
+import { PromptTemplateEditor } from './PromptTemplateEditor';
+import { PROVIDER_CONFIGS, MODEL_CATALOGUE, DEFAULT_LOCAL_LLM_SETTINGS, estimateCost, getModelInfo, getProviderName, isProviderConfigured, listLocalModels } from '../services/aiProviders';
 
 interface ConfigurationViewProps {
     rawText: string;
+    extractionReport?: ExtractionReport | null;
     onStartCleaning: (options: CleaningOptions) => void;
     onCancel: () => void;
 }
 
-// Pricing for Gemini Flash (approximate/reference)
-const PRICE_PER_1M_INPUT = 0.075; // $
-const PRICE_PER_1M_OUTPUT = 0.30; // $
-
-export const ConfigurationView: React.FC<ConfigurationViewProps> = ({ rawText, onStartCleaning, onCancel }) => {
+export const ConfigurationView: React.FC<ConfigurationViewProps> = ({ rawText, extractionReport, onStartCleaning, onCancel }) => {
     // Initialize standard options
     const [options, setOptions] = useState<CleaningOptions>({
         chapterStyle: 'remove',
         listStyle: 'prose',
         hyphenationStyle: 'join',
         aiProvider: 'gemini',
+        model: MODEL_CATALOGUE.gemini[0].id,
+        localLlm: DEFAULT_LOCAL_LLM_SETTINGS,
         removeUrls: true,
         removeEmails: true,
         removeTableOfContents: true,
@@ -30,6 +34,14 @@ export const ConfigurationView: React.FC<ConfigurationViewProps> = ({ rawText, o
         applyPhoneticCorrections: true, // Default ON for better TTS pronunciation
         customReplacements: [],
         processingMode: 'standard', // Default to standard audiobook mode
+        driftThreshold: DRIFT_THRESHOLD,
+        outputMode: 'fulltext',
+        hybridMode: false,
+        messThreshold: MESS_THRESHOLD,
+        budgetCents: 0,
+        auditLog: false,
+        piiRedaction: { enabled: false, names: [] },
+        glossary: [],
         pauseConfig: {
             pauseAfterParagraph: true,
             pauseAfterParagraphDuration: 2.0,
@@ -53,6 +65,120 @@ export const ConfigurationView: React.FC<ConfigurationViewProps> = ({ rawText, o
         }
     }, []);
 
+    // Load local LLM settings from localStorage on mount
+    useEffect(() => {
+        try {
+            const saved = localStorage.getItem('localLlmSettings');
+            if (saved) {
+                const parsed = JSON.parse(saved);
+                if (parsed && typeof parsed === 'object') {
+                    setOptions(prev => ({ ...prev, localLlm: { ...DEFAULT_LOCAL_LLM_SETTINGS, ...parsed } }));
+                }
+            }
+        } catch (e) {
+            console.error("Failed to load local LLM settings", e);
+        }
+    }, []);
+
+    // Load glossary from localStorage on mount
+    useEffect(() => {
+        try {
+            const saved = localStorage.getItem('glossary');
+            if (saved) {
+                const parsed = JSON.parse(saved);
+                if (Array.isArray(parsed)) {
+                    setOptions(prev => ({ ...prev, glossary: parsed }));
+                }
+            }
+        } catch (e) {
+            console.error("Failed to load glossary", e);
+        }
+    }, []);
+
+    // Save glossary whenever it changes
+    useEffect(() => {
+        if (options.glossary) {
+            localStorage.setItem('glossary', JSON.stringify(options.glossary));
+        }
+    }, [options.glossary]);
+
+    // Load PII redaction settings from localStorage on mount
+    useEffect(() => {
+        try {
+            const saved = localStorage.getItem('piiRedaction');
+            if (saved) {
+                const parsed = JSON.parse(saved);
+                if (parsed && Array.isArray(parsed.names)) {
+                    setOptions(prev => ({ ...prev, piiRedaction: { enabled: !!parsed.enabled, names: parsed.names } }));
+                }
+            }
+        } catch (e) {
+            console.error("Failed to load PII redaction settings", e);
+        }
+    }, []);
+
+    // Save PII redaction settings whenever they change
+    useEffect(() => {
+        if (options.piiRedaction) {
+            localStorage.setItem('piiRedaction', JSON.stringify(options.piiRedaction));
+        }
+    }, [options.piiRedaction]);
+
+    // Load the selected prompt template from localStorage on mount
+    useEffect(() => {
+        try {
+            const saved = localStorage.getItem('selectedPromptTemplate');
+            if (saved) {
+                const parsed = JSON.parse(saved);
+                if (parsed && typeof parsed.text === 'string') {
+                    setOptions(prev => ({ ...prev, promptTemplate: parsed }));
+                }
+            }
+        } catch (e) {
+            console.error("Failed to load selected prompt template", e);
+        }
+    }, []);
+
+    // Save the selected prompt template whenever it changes
+    useEffect(() => {
+        if (options.promptTemplate) {
+            localStorage.setItem('selectedPromptTemplate', JSON.stringify(options.promptTemplate));
+        } else {
+            localStorage.removeItem('selectedPromptTemplate');
+        }
+    }, [options.promptTemplate]);
+
+    // Save local LLM settings to localStorage whenever they change
+    useEffect(() => {
+        if (options.localLlm) {
+            localStorage.setItem('localLlmSettings', JSON.stringify(options.localLlm));
+        }
+    }, [options.localLlm]);
+
+    // Models offered by the local server (filled on demand via "Modelle laden")
+    const [localModels, setLocalModels] = useState<string[]>([]);
+    const [localModelsStatus, setLocalModelsStatus] = useState<'IDLE' | 'LOADING' | 'ERROR'>('IDLE');
+
+    const handleLocalLlmChange = (field: keyof LocalLlmSettings, value: string | number) => {
+        setOptions(prev => ({
+            ...prev,
+            localLlm: { ...DEFAULT_LOCAL_LLM_SETTINGS, ...prev.localLlm, [field]: value }
+        }));
+    };
+
+    const handleLoadLocalModels = async () => {
+        setLocalModelsStatus('LOADING');
+        try {
+            const models = await listLocalModels(options.localLlm?.baseUrl || DEFAULT_LOCAL_LLM_SETTINGS.baseUrl);
+            setLocalModels(models);
+            setLocalModelsStatus('IDLE');
+        } catch (e) {
+            console.error("Failed to load local models", e);
+            setLocalModels([]);
+            setLocalModelsStatus('ERROR');
+        }
+    };
+
     // Helper: Check if meditation mode is active
     const isMeditation = options.processingMode === 'meditation';
 
@@ -109,6 +235,14 @@ export const ConfigurationView: React.FC<ConfigurationViewProps> = ({ rawText, o
         });
     };
 
+    const handleGlossaryChange = (index: number, changes: Partial<GlossaryTerm>) => {
+        setOptions(prev => {
+            const newGlossary = [...(prev.glossary || [])];
+            newGlossary[index] = { ...newGlossary[index], ...changes };
+            return { ...prev, glossary: newGlossary };
+        });
+    };
+
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         onStartCleaning(options);
@@ -117,21 +251,49 @@ export const ConfigurationView: React.FC<ConfigurationViewProps> = ({ rawText, o
     const rawTextPreview = rawText.substring(0, PREVIEW_LENGTH);
     const isTruncated = rawText.length > PREVIEW_LENGTH;
 
+    // Catalogue entry of the chosen model (drives cost estimate and chunk size)
+    const modelInfo = useMemo(
+        () => getModelInfo(options.aiProvider, options.model, options.localLlm),
+        [options.aiProvider, options.model, options.localLlm]
+    );
+
+    const handleProviderChange = (provider: CleaningOptions['aiProvider']) => {
+        // Switch to the default model of the new provider
+        setOptions(prev => ({ ...prev, aiProvider: provider, model: MODEL_CATALOGUE[provider][0].id }));
+    };
+
+    // Same split as the pipeline ({{keep}} regions protected, token limit of the model)
+    const chunks = useMemo(() => planChunks(rawText, options).chunks, [rawText, options]);
+
+    // Hybrid mode: which chunks would be sent to the AI
+    const hybridPlan = useMemo(() => {
+        if (!options.hybridMode) return null;
+        const messyChunks = chunks.filter(chunk => isMessyChunk(chunk, options.messThreshold ?? MESS_THRESHOLD));
+        return {
+            totalChunks: chunks.length,
+            aiChunks: messyChunks.length,
+            aiTokens: messyChunks.reduce((sum, chunk) => sum + estimateTokens(chunk), 0),
+        };
+    }, [chunks, options.hybridMode, options.messThreshold]);
+
     // Calculate estimated costs and runtime
     const estimates = useMemo(() => {
-        // Rule of thumb: 1 Token ~= 4 chars
-        const inputTokens = Math.ceil(rawText.length / 4);
+        // Token estimate tuned for German text (hybrid mode: only the chunks that go to the AI)
+        const inputTokens = hybridPlan ? hybridPlan.aiTokens : chunks.reduce((sum, chunk) => sum + estimateTokens(chunk), 0);
         // Assume output is roughly same length as input (cleaning doesn't reduce drastically)
-        const outputTokens = inputTokens;
-
-        // Formula: (Tokens / 1,000,000) * Price_Per_Million
-        const inputCost = (inputTokens / 1_000_000) * PRICE_PER_1M_INPUT;
-        const outputCost = (outputTokens / 1_000_000) * PRICE_PER_1M_OUTPUT;
+        // In edit mode only the changes come back
+        const outputTokens = options.outputMode === 'edits' ? Math.ceil(inputTokens * EDIT_MODE_OUTPUT_RATIO) : inputTokens;
 
-        const costUSD = inputCost + outputCost;
+        // Formula: (Tokens / 1,000,000) * Price_Per_Million of the chosen model
+        const costUSD = estimateCost(modelInfo, inputTokens, outputTokens);
         const totalTokens = inputTokens + outputTokens;
 
-        const costString = costUSD < 0.0001 ? '< 0.01 ¢' : `~${(costUSD * 100).toFixed(2)} ¢`;
+        let costString: string;
+        if (modelInfo.inputPricePer1M === 0 && modelInfo.outputPricePer1M === 0) {
+            costString = 'kostenlos (lokal)';
+        } else {
+            costString = costUSD < 0.0001 ? '< 0.01 ¢' : `~${(costUSD * 100).toFixed(2)} ¢`;
+        }
 
         // Runtime Prognosis
         const wordCount = rawText.trim().split(/\s+/).length;
@@ -146,8 +308,11 @@ export const ConfigurationView: React.FC<ConfigurationViewProps> = ({ rawText, o
             durationString = `${minutes} Min.`;
         }
 
-        return { costString, totalTokens, durationString };
-    }, [rawText]);
+        // Budget (cents): warn before the start, the run pauses for confirmation
+        const exceedsBudget = !!options.budgetCents && costUSD * 100 > options.budgetCents;
+
+        return { costString, totalTokens, durationString, exceedsBudget };
+    }, [rawText, chunks, modelInfo, options.outputMode, hybridPlan, options.budgetCents]);
 
     // Text Analysis
     const analysis = useMemo(() => {
@@ -279,15 +444,225 @@ export const ConfigurationView: React.FC<ConfigurationViewProps> = ({ rawText, o
                         <label className="block text-sm font-semibold text-white mb-2">KI-Modell</label>
                         <select
                             value={options.aiProvider}
-                            onChange={(e) => setOptions(prev => ({ ...prev, aiProvider: e.target.value as any }))}
+                            onChange={(e) => handleProviderChange(e.target.value as CleaningOptions['aiProvider'])}
                             className="w-full bg-gray-900 border border-gray-500 rounded px-3 py-2 text-white focus:border-brand-secondary focus:outline-none"
                         >
-                            <option value="gemini">Google Gemini Flash (Schnell & Günstig)</option>
-                            <option value="openai">OpenAI GPT-4o (Teuer & Präzise)</option>
-                            <option value="qwen">Qwen 2.5 (Open Source)</option>
-                            <option value="grok">Grok Beta (X.AI)</option>
-                            <option value="deepseek">DeepSeek V3 (New)</option>
+                            <option value="gemini">Google Gemini</option>
+                            <option value="openai">OpenAI</option>
+                            <option value="qwen">Qwen (Alibaba Cloud)</option>
+                            <option value="grok">Grok (X.AI)</option>
+                            <option value="deepseek">DeepSeek</option>
+                            <option value="local">Lokales LLM (Ollama / llama.cpp – Daten bleiben auf dem Rechner)</option>
                         </select>
+                        {options.aiProvider !== 'local' && (
+                            <select
+                                value={modelInfo.id}
+                                onChange={(e) => setOptions(prev => ({ ...prev, model: e.target.value }))}
+                                className="mt-2 w-full bg-gray-900 border border-gray-500 rounded px-3 py-2 text-white focus:border-brand-secondary focus:outline-none"
+                            >
+                                {MODEL_CATALOGUE[options.aiProvider].map(model => (
+                                    <option key={model.id} value={model.id}>{model.name}</option>
+                                ))}
+                            </select>
+                        )}
+                        <p className="mt-2 text-xs text-gray-400">
+                            Kontext: {modelInfo.contextWindow.toLocaleString('de-DE')} Tokens · Max. Ausgabe: {modelInfo.maxOutputTokens.toLocaleString('de-DE')} Tokens
+                            {modelInfo.inputPricePer1M > 0 && ` · $${modelInfo.inputPricePer1M.toFixed(2)} / $${modelInfo.outputPricePer1M.toFixed(2)} pro 1M Tokens (Ein-/Ausgabe)`}
+                        </p>
+                        {options.aiProvider === 'local' && (
+                            <div className="mt-3 space-y-3">
+                                <div>
+                                    <label className="block text-xs text-gray-400 mb-1">Basis-URL (OpenAI-kompatibel)</label>
+                                    <input
+                                        type="text"
+                                        value={options.localLlm?.baseUrl ?? ''}
+                                        onChange={(e) => handleLocalLlmChange('baseUrl', e.target.value)}
+                                        placeholder={PROVIDER_CONFIGS.local.baseUrl}
+                                        className="w-full bg-gray-900 border border-gray-500 rounded px-3 py-2 text-white text-sm focus:border-brand-secondary focus:outline-none"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-xs text-gray-400 mb-1">Modell</label>
+                                    <div className="flex gap-2">
+                                        <input
+                                            type="text"
+                                            list="local-llm-models"
+                                            value={options.localLlm?.model ?? ''}
+                                            onChange={(e) => handleLocalLlmChange('model', e.target.value)}
+                                            placeholder={MODEL_CATALOGUE.local[0].id}
+                                            className="flex-grow bg-gray-900 border border-gray-500 rounded px-3 py-2 text-white text-sm focus:border-brand-secondary focus:outline-none"
+                                        />
+                                        <datalist id="local-llm-models">
+                                            {localModels.map(model => <option key={model} value={model} />)}
+                                        </datalist>
+                                        <button
+                                            type="button"
+                                            onClick={handleLoadLocalModels}
+                                            disabled={localModelsStatus === 'LOADING'}
+                                            className="px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded transition-colors disabled:opacity-50"
+                                        >
+                                            {localModelsStatus === 'LOADING' ? 'Lade...' : 'Modelle laden'}
+                                        </button>
+                                    </div>
+                                    {localModelsStatus === 'ERROR' && (
+                                        <p className="mt-1 text-xs text-red-400">Server nicht erreichbar. Läuft Ollama und ist CORS erlaubt (OLLAMA_ORIGINS)?</p>
+                                    )}
+                                    {localModelsStatus === 'IDLE' && localModels.length > 0 && (
+                                        <p className="mt-1 text-xs text-gray-400">{localModels.length} Modell(e) gefunden.</p>
+                                    )}
+                                </div>
+                                <div>
+                                    <label className="block text-xs text-gray-400 mb-1">Timeout pro Abschnitt (Sekunden)</label>
+                                    <input
+                                        type="number"
+                                        min={30}
+                                        step={30}
+                                        value={options.localLlm?.timeoutSeconds ?? DEFAULT_LOCAL_LLM_SETTINGS.timeoutSeconds}
+                                        onChange={(e) => handleLocalLlmChange('timeoutSeconds', Math.max(30, parseInt(e.target.value, 10) || DEFAULT_LOCAL_LLM_SETTINGS.timeoutSeconds))}
+                                        className="w-32 bg-gray-900 border border-gray-500 rounded px-3 py-2 text-white text-sm focus:border-brand-secondary focus:outline-none"
+                                    />
+                                    <p className="mt-1 text-xs text-gray-500">Auf reinen CPU-Systemen kann ein Abschnitt mehrere Minuten dauern.</p>
+                                </div>
+                                <div className="flex gap-3">
+                                    <div>
+                                        <label className="block text-xs text-gray-400 mb-1">Kontextfenster (Tokens)</label>
+                                        <input
+                                            type="number"
+                                            min={1024}
+                                            step={1024}
+                                            value={options.localLlm?.contextWindow ?? DEFAULT_LOCAL_LLM_SETTINGS.contextWindow}
+                                            onChange={(e) => handleLocalLlmChange('contextWindow', Math.max(1024, parseInt(e.target.value, 10) || DEFAULT_LOCAL_LLM_SETTINGS.contextWindow!))}
+                                            className="w-32 bg-gray-900 border border-gray-500 rounded px-3 py-2 text-white text-sm focus:border-brand-secondary focus:outline-none"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs text-gray-400 mb-1">Max. Ausgabe (Tokens)</label>
+                                        <input
+                                            type="number"
+                                            min={256}
+                                            step={256}
+                                            value={options.localLlm?.maxOutputTokens ?? DEFAULT_LOCAL_LLM_SETTINGS.maxOutputTokens}
+                                            onChange={(e) => handleLocalLlmChange('maxOutputTokens', Math.max(256, parseInt(e.target.value, 10) || DEFAULT_LOCAL_LLM_SETTINGS.maxOutputTokens!))}
+                                            className="w-32 bg-gray-900 border border-gray-500 rounded px-3 py-2 text-white text-sm focus:border-brand-secondary focus:outline-none"
+                                        />
+                                    </div>
+                                </div>
+                                <p className="text-xs text-gray-500">Wie beim Server eingestellt (Ollama: num_ctx). Die Abschnitte werden so bemessen, dass Systemanweisung, Kontext, Text und Antwort hineinpassen.</p>
+                            </div>
+                        )}
+                        <div className="mt-3">
+                            <label className="flex justify-between text-xs text-gray-400 mb-1">
+                                <span>Drift-Toleranz (Abweichung der KI-Ausgabe vom Original)</span>
+                                <span className="text-white font-semibold">{Math.round((options.driftThreshold ?? DRIFT_THRESHOLD) * 100)} %</span>
+                            </label>
+                            <input
+                                type="range"
+                                min={0.1}
+                                max={0.8}
+                                step={0.05}
+                                value={options.driftThreshold ?? DRIFT_THRESHOLD}
+                                onChange={(e) => setOptions(prev => ({ ...prev, driftThreshold: parseFloat(e.target.value) }))}
+                                className="w-full accent-brand-secondary"
+                            />
+                            <p className="mt-1 text-xs text-gray-500">Weicht ein Abschnitt stärker ab, wird er erneut verarbeitet bzw. offline bereinigt und im Ergebnis als auffällig markiert.</p>
+                        </div>
+                        <div className="mt-3">
+                            <label className="flex items-center gap-2 cursor-pointer text-sm text-gray-300">
+                                <input
+                                    type="checkbox"
+                                    checked={!!options.hybridMode}
+                                    onChange={(e) => setOptions(prev => ({ ...prev, hybridMode: e.target.checked }))}
+                                    className="accent-brand-secondary"
+                                />
+                                Hybrid-Modus: Offline zuerst, KI nur für unsaubere Abschnitte
+                            </label>
+                            {options.hybridMode && (
+                                <div className="mt-2 pl-6">
+                                    <label className="flex justify-between text-xs text-gray-400 mb-1">
+                                        <span>Schwelle (Unordnungs-Wert ab dem die KI übernimmt)</span>
+                                        <span className="text-white font-semibold">{Math.round((options.messThreshold ?? MESS_THRESHOLD) * 100)} %</span>
+                                    </label>
+                                    <input
+                                        type="range"
+                                        min={0.05}
+                                        max={0.8}
+                                        step={0.05}
+                                        value={options.messThreshold ?? MESS_THRESHOLD}
+                                        onChange={(e) => setOptions(prev => ({ ...prev, messThreshold: parseFloat(e.target.value) }))}
+                                        className="w-full accent-brand-secondary"
+                                    />
+                                    <p className="mt-1 text-xs text-gray-500">Bewertet werden Silbentrennungen, freistehende Seitenzahlen, Zeilenumbrüche im Satz, kaputte Umlaute (Mojibake) und Sonderzeichen-Dichte.</p>
+                                </div>
+                            )}
+                        </div>
+                        <div className="mt-3">
+                            <label className="block text-xs text-gray-400 mb-1">Budget pro Durchlauf (US-Cent, 0 = unbegrenzt)</label>
+                            <input
+                                type="number"
+                                min={0}
+                                step={1}
+                                value={options.budgetCents ?? 0}
+                                onChange={(e) => setOptions(prev => ({ ...prev, budgetCents: Math.max(0, parseFloat(e.target.value) || 0) }))}
+                                className="w-32 bg-gray-900 border border-gray-500 rounded px-3 py-2 text-white text-sm focus:border-brand-secondary focus:outline-none"
+                            />
+                            <p className="mt-1 text-xs text-gray-500">Würden die bisherigen oder hochgerechneten Kosten das Budget überschreiten, pausiert die Verarbeitung und fragt nach.</p>
+                        </div>
+                        <div className="mt-3">
+                            <label className="block text-xs text-gray-400 mb-1">KI-Ausgabe</label>
+                            <select
+                                value={options.outputMode || 'fulltext'}
+                                onChange={(e) => setOptions(prev => ({ ...prev, outputMode: e.target.value as OutputMode }))}
+                                className="w-full bg-gray-900 border border-gray-500 rounded px-3 py-2 text-white text-sm focus:border-brand-secondary focus:outline-none"
+                            >
+                                <option value="fulltext">Volltext (KI gibt den ganzen Abschnitt zurück)</option>
+                                <option value="edits">Bearbeitungsoperationen (nur Änderungen, deutlich günstiger)</option>
+                            </select>
+                            {options.outputMode === 'edits' && (
+                                <p className="mt-1 text-xs text-gray-500">Die KI liefert nur Lösch-, Ersetzungs- und Verbindungsoperationen, die lokal geprüft und angewendet werden. Operationen an geschützten Tags werden verworfen. Alle Änderungen sind in der Diff-Ansicht aufgelistet.</p>
+                            )}
+                        </div>
+                        <div className="mt-3">
+                            <label className="flex items-center gap-2 cursor-pointer text-sm text-gray-300">
+                                <input
+                                    type="checkbox"
+                                    checked={!!options.auditLog}
+                                    onChange={(e) => setOptions(prev => ({ ...prev, auditLog: e.target.checked }))}
+                                    className="accent-brand-secondary"
+                                />
+                                Audit-Log aufzeichnen (Prompts und Rohantworten je Abschnitt)
+                            </label>
+                            {options.auditLog && (
+                                <p className="mt-1 pl-6 text-xs text-gray-500">Zeichnet System- und Benutzer-Prompt, die ungefilterte KI-Antwort, die bereinigte Antwort, Wiederholungen, Fallback-Gründe und Laufzeiten auf. Das Log bleibt im Browser und kann im Ergebnis als JSON heruntergeladen werden. API-Schlüssel werden geschwärzt.</p>
+                            )}
+                        </div>
+                        <div className="mt-3">
+                            <label className="flex items-center gap-2 cursor-pointer text-sm text-gray-300">
+                                <input
+                                    type="checkbox"
+                                    checked={!!options.piiRedaction?.enabled}
+                                    onChange={(e) => setOptions(prev => ({ ...prev, piiRedaction: { names: [], ...prev.piiRedaction, enabled: e.target.checked } }))}
+                                    className="accent-brand-secondary"
+                                />
+                                Personenbezogene Daten vor dem Versand pseudonymisieren
+                            </label>
+                            {options.piiRedaction?.enabled && (
+                                <div className="mt-2 pl-6">
+                                    <p className="text-xs text-gray-500 mb-2">E-Mail-Adressen, Telefonnummern, Adressen und IBANs werden automatisch erkannt, Namen aus der Liste unten. Die KI erhält nur Platzhalter, die Originale werden danach wieder eingesetzt. Gilt nicht für lokale Server. Im Ergebnis steht ein Datenschutz-Bericht.</p>
+                                    <label className="block text-xs text-gray-400 mb-1">Namen (einer pro Zeile)</label>
+                                    <textarea
+                                        value={options.piiRedaction.names.join('\n')}
+                                        onChange={(e) => setOptions(prev => ({ ...prev, piiRedaction: { enabled: true, names: e.target.value.split('\n') } }))}
+                                        placeholder={'Max Mustermann\nErika Musterfrau'}
+                                        className="w-full bg-gray-900 border border-gray-600 rounded-lg p-2 text-sm text-gray-light focus:border-brand-secondary focus:outline-none h-20 resize-y"
+                                    />
+                                </div>
+                            )}
+                        </div>
+                        {!isProviderConfigured(options.aiProvider) && (
+                            <p className="mt-2 text-xs text-orange-300">
+                                Kein API-Schlüssel für {getProviderName(options.aiProvider)} hinterlegt (<code className="bg-gray-900 px-1 rounded">{PROVIDER_CONFIGS[options.aiProvider].envKey}</code>). Die Bereinigung läuft im Offline-Modus (Regex).
+                            </p>
+                        )}
                     </div>
 
                     {/* Rule 1: Chapters - Hidden in Meditation Mode */}
@@ -558,6 +933,61 @@ export const ConfigurationView: React.FC<ConfigurationViewProps> = ({ rawText, o
                         </div>
                     </fieldset>
 
+                    {/* Glossary: Protected terms */}
+                    <fieldset className="p-4 border border-gray-500 rounded-lg">
+                        <div className="flex justify-between items-center mb-2">
+                            <legend className="px-2 text-lg font-semibold text-white">Glossar (Geschützte Begriffe)</legend>
+                            <button
+                                type="button"
+                                onClick={() => setOptions(prev => ({ ...prev, glossary: [...(prev.glossary || []), { term: '', preferred: '', exemptFromRules: true }] }))}
+                                className="flex items-center gap-1 text-xs bg-brand-primary text-white px-2 py-1 rounded hover:bg-brand-secondary transition-colors"
+                            >
+                                <PlusIcon className="w-3 h-3" /> Begriff hinzufügen
+                            </button>
+                        </div>
+                        <p className="text-xs text-gray-400 mb-4 px-2">
+                            Markennamen, Figuren oder Fachbegriffe, die nicht „korrigiert" werden dürfen (Groß-/Kleinschreibung wird beachtet). Die KI erhält sie als Anweisung, nach jedem Abschnitt wird geprüft, ob sie erhalten geblieben sind. Optional mit bevorzugter Schreibweise.
+                        </p>
+
+                        <div className="space-y-3">
+                            {options.glossary?.map((entry, index) => (
+                                <div key={index} className="flex flex-wrap gap-2 items-center">
+                                    <input
+                                        type="text"
+                                        value={entry.term}
+                                        onChange={(e) => handleGlossaryChange(index, { term: e.target.value })}
+                                        placeholder="Begriff..."
+                                        className="flex-1 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm text-white"
+                                    />
+                                    <span className="text-gray-500">→</span>
+                                    <input
+                                        type="text"
+                                        value={entry.preferred || ''}
+                                        onChange={(e) => handleGlossaryChange(index, { preferred: e.target.value })}
+                                        placeholder="Bevorzugte Schreibweise (optional)"
+                                        className="flex-1 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm text-white"
+                                    />
+                                    <label className="flex items-center gap-1 text-xs text-gray-400" title="Nicht als Abkürzung ausschreiben und nicht phonetisch anpassen">
+                                        <input
+                                            type="checkbox"
+                                            checked={entry.exemptFromRules}
+                                            onChange={(e) => handleGlossaryChange(index, { exemptFromRules: e.target.checked })}
+                                            className="accent-brand-secondary"
+                                        />
+                                        Von Regeln ausnehmen
+                                    </label>
+                                    <button
+                                        type="button"
+                                        onClick={() => setOptions(prev => ({ ...prev, glossary: prev.glossary?.filter((_, i) => i !== index) }))}
+                                        className="text-gray-400 hover:text-red-400"
+                                    >
+                                        <TrashIcon className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    </fieldset>
+
                     {/* NEW: Custom Instructions */}
                     <fieldset className="p-4 border border-gray-500 rounded-lg">
                         <legend className="px-2 text-lg font-semibold text-white">Zusätzliche KI-Anweisungen (Optional)</legend>
@@ -571,8 +1001,17 @@ export const ConfigurationView: React.FC<ConfigurationViewProps> = ({ rawText, o
                             placeholder="z.B. 'Ignoriere französische Begriffe', 'Formatiere Dialoge neu'..."
                             className="w-full bg-gray-900 border border-gray-600 rounded-lg p-3 text-sm text-gray-light focus:border-brand-secondary focus:outline-none h-24 resize-y"
                         />
+                        <p className="text-xs text-gray-500 mt-2 px-2">
+                            Tipp: Passagen im Text zwischen <code className="bg-gray-900 px-1 rounded">{'{{keep}}'}</code> und <code className="bg-gray-900 px-1 rounded">{'{{/keep}}'}</code> (z.B. Gedichte, Zitate) bleiben in allen Modi unverändert. Die Markierungen werden beim Export entfernt.
+                        </p>
                     </fieldset>
 
+                    {/* System prompt templates */}
+                    <PromptTemplateEditor
+                        options={options}
+                        onSelect={(promptTemplate) => setOptions(prev => ({ ...prev, promptTemplate }))}
+                    />
+
                     {/* Pause Controls - Only in Standard Mode */}
                     {options.processingMode === 'standard' && options.pauseConfig && (
                         <PauseControls
@@ -618,8 +1057,18 @@ export const ConfigurationView: React.FC<ConfigurationViewProps> = ({ rawText, o
                                 </div>
                                 <div className="flex gap-4 justify-end">
                                     <span>Geschätzte Tokens: <span className="text-white font-semibold">{estimates.totalTokens.toLocaleString('de-DE')}</span></span>
-                                    <span>Geschätzte Kosten (Gemini Flash): <span className="text-brand-secondary font-bold">{estimates.costString}</span></span>
+                                    <span>Geschätzte Kosten ({modelInfo.name}): <span className="text-brand-secondary font-bold">{estimates.costString}</span></span>
                                 </div>
+                                {estimates.exceedsBudget && (
+                                    <div className="flex gap-4 justify-end text-yellow-400">
+                                        <span>Die geschätzten Kosten übersteigen das Budget ({options.budgetCents} ¢) – die Verarbeitung wird vor dem Start zur Bestätigung pausiert.</span>
+                                    </div>
+                                )}
+                                {hybridPlan && (
+                                    <div className="flex gap-4 justify-end">
+                                        <span>Hybrid: <span className="text-white font-semibold">{hybridPlan.aiChunks} von {hybridPlan.totalChunks}</span> Abschnitten gehen an die KI, der Rest wird offline bereinigt.</span>
+                                    </div>
+                                )}
                             </div>
                         </div>
                         <div className="flex justify-end gap-4">
@@ -651,6 +1100,47 @@ export const ConfigurationView: React.FC<ConfigurationViewProps> = ({ rawText, o
                     <h2 className="text-2xl font-bold text-white">Text-Diagnose (Erweitert)</h2>
                 </div>
 
+                {/* Column reading order chosen during PDF extraction */}
+                {extractionReport && (extractionReport.twoColumnPages > 0 || extractionReport.columnLayout !== 'auto') && (
+                    <div className="bg-gray-800 p-4 rounded-lg border border-gray-600 mb-4">
+                        <h4 className="text-white font-semibold mb-1">Spaltenlayout (PDF)</h4>
+                        <p className="text-sm text-gray-400">
+                            {extractionReport.columnLayout === 'single'
+                                ? 'Einspaltig gelesen (manuell festgelegt).'
+                                : `${extractionReport.twoColumnPages} Seite(n) zweispaltig gelesen – erst die linke, dann die rechte Spalte${extractionReport.columnLayout === 'two' ? ' (manuell festgelegt)' : ''}.`}
+                        </p>
+                        <p className="text-xs text-gray-500 mt-1">
+                            Stimmt die Lesereihenfolge nicht, laden Sie die Datei mit einer anderen Einstellung unter "Spaltenlayout (PDF)" erneut hoch.
+                        </p>
+                    </div>
+                )}
+
+                {/* Running headers/footers already removed during PDF extraction */}
+                {extractionReport && extractionReport.removedRunningLines.length > 0 && (
+                    <div className="bg-gray-800 p-4 rounded-lg border border-gray-600 mb-4">
+                        <h4 className="text-white font-semibold mb-1 flex items-center gap-2">
+                            <span>Kopf- und Fußzeilen (PDF)</span>
+                            <span className="text-xs font-bold text-brand-primary bg-brand-secondary px-2 py-0.5 rounded-full text-black">
+                                {extractionReport.removedRunningLines.length}
+                            </span>
+                        </h4>
+                        <p className="text-xs text-gray-500 mb-3">
+                            Beim Einlesen automatisch entfernt: Zeilen am oberen oder unteren Seitenrand, die sich (bis auf Zahlen) auf vielen Seiten wiederholen.
+                        </p>
+                        <ul className="text-sm text-gray-400 space-y-1 max-h-32 overflow-y-auto scrollbar-thin">
+                            {extractionReport.removedRunningLines.map((line, idx) => (
+                                <li key={idx} className="flex justify-between items-center border-b border-gray-700/50 last:border-0 pb-1 last:pb-0">
+                                    <div className="flex items-center gap-2 overflow-hidden">
+                                        <span className="text-gray-500 whitespace-nowrap">{line.position === 'header' ? 'Kopfzeile' : 'Fußzeile'}</span>
+                                        <span className="font-mono text-gray-300 truncate" title={line.text}>{line.text}</span>
+                                    </div>
+                                    <span className="text-gray-500 ml-2 whitespace-nowrap">{line.pages} Seiten</span>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+
                 {analysis.totalIssues === 0 ? (
                     <div className="p-4 bg-green-900/20 border border-green-700/50 rounded-lg flex items-center gap-3">
                         <div className="w-3 h-3 bg-green-500 rounded-full shadow-[0_0_8px_rgba(34,197,94,0.6)]"></div>
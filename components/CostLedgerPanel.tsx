@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { CostLedgerEntry } from '../types';
+import { getProviderName } from '../services/aiProviders';
+import { SESSION_START, clearCostLedger, formatCents, loadCostLedger, sumLedger, usdToCents } from '../services/costTracker';
+
+interface CostLedgerPanelProps {
+    onClose: () => void;
+}
+
+const STATUS_LABELS: Record<CostLedgerEntry['status'], string> = {
+    completed: 'fertig',
+    aborted: 'abgebrochen',
+    error: 'Fehler',
+};
+
+export const CostLedgerPanel: React.FC<CostLedgerPanelProps> = ({ onClose }) => {
+    const [entries, setEntries] = useState<CostLedgerEntry[]>(() => loadCostLedger());
+
+    const sessionTotal = sumLedger(entries.filter(entry => entry.date >= SESSION_START));
+    const total = sumLedger(entries);
+
+    const handleClear = () => {
+        if (window.confirm("Möchten Sie die Kostenübersicht wirklich löschen?")) {
+            clearCostLedger();
+            setEntries([]);
+        }
+    };
+
+    return (
+        <div className="max-w-3xl mx-auto mb-4 bg-gray-800 border border-gray-600 rounded-xl p-4 text-left text-gray-light animate-fade-in">
+            <div className="flex justify-between items-center mb-3">
+                <h3 className="text-base font-semibold text-white">Kostenübersicht (KI-Durchläufe)</h3>
+                <button onClick={onClose} className="text-gray-400 hover:text-white text-xs">Schließen</button>
+            </div>
+            <div className="flex flex-wrap gap-4 text-xs mb-3">
+                <span>Diese Sitzung: <span className="text-white font-semibold">{formatCents(usdToCents(sessionTotal.costUsd))}</span></span>
+                <span>Gesamt: <span className="text-white font-semibold">{formatCents(usdToCents(total.costUsd))}</span> ({(total.tokenUsage.prompt + total.tokenUsage.output).toLocaleString('de-DE')} Tokens)</span>
+            </div>
+            {entries.length === 0 ? (
+                <p className="text-xs text-gray-500">Noch keine KI-Durchläufe erfasst.</p>
+            ) : (
+                <div className="max-h-64 overflow-y-auto">
+                    <table className="w-full text-xs">
+                        <thead>
+                            <tr className="text-gray-400 border-b border-gray-600">
+                                <th className="text-left py-1 pr-2">Datum</th>
+                                <th className="text-left py-1 pr-2">Datei</th>
+                                <th className="text-left py-1 pr-2">Modell</th>
+                                <th className="text-right py-1 pr-2">Tokens</th>
+                                <th className="text-right py-1">Kosten</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {entries.map((entry, index) => (
+                                <tr key={`${entry.date}-${index}`} className="border-b border-gray-700/50">
+                                    <td className="py-1 pr-2 whitespace-nowrap">{new Date(entry.date).toLocaleString('de-DE')}</td>
+                                    <td className="py-1 pr-2 break-all">
+                                        {entry.fileName}
+                                        {entry.status !== 'completed' && <span className="ml-1 text-yellow-400">({STATUS_LABELS[entry.status]})</span>}
+                                    </td>
+                                    <td className="py-1 pr-2">{getProviderName(entry.provider)} · {entry.model}</td>
+                                    <td className="py-1 pr-2 text-right">{(entry.tokenUsage.prompt + entry.tokenUsage.output).toLocaleString('de-DE')}</td>
+                                    <td className="py-1 text-right text-white">{formatCents(usdToCents(entry.costUsd))}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+            {entries.length > 0 && (
+                <button onClick={handleClear} className="mt-3 text-xs text-red-400 hover:underline">
+                    Kostenübersicht löschen
+                </button>
+            )}
+        </div>
+    );
+};
@@ -1,14 +1,17 @@
 
 import React, { useCallback, useState } from 'react';
 import { UploadIcon } from './icons';
+import { ExtractionOptions, PdfColumnLayout } from '../types';
 
 interface FileUploadAreaProps {
-  onFileSelect: (file: File) => void;
+  onFileSelect: (file: File, extractionOptions?: ExtractionOptions) => void;
 }
 
 export const FileUploadArea: React.FC<FileUploadAreaProps> = ({ onFileSelect }) => {
   const [isDragging, setIsDragging] = useState(false);
   const [pastedText, setPastedText] = useState('');
+  // Per document: applies to the next file only, not stored
+  const [pdfColumns, setPdfColumns] = useState<PdfColumnLayout>('auto');
 
   // Handler für direkte Texteingabe - erstellt virtuelles File
   const handleUseText = useCallback(() => {
@@ -46,13 +49,13 @@ export const FileUploadArea: React.FC<FileUploadAreaProps> = ({ onFileSelect })
     e.stopPropagation();
     setIsDragging(false);
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      onFileSelect(e.dataTransfer.files[0]);
+      onFileSelect(e.dataTransfer.files[0], { pdfColumns });
     }
-  }, [onFileSelect]);
+  }, [onFileSelect, pdfColumns]);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      onFileSelect(e.target.files[0]);
+      onFileSelect(e.target.files[0], { pdfColumns });
     }
   };
 
@@ -72,7 +75,7 @@ export const FileUploadArea: React.FC<FileUploadAreaProps> = ({ onFileSelect })
           Datei hierher ziehen oder auswählen
         </p>
         <p className="mt-2 text-gray-400">
-          Unterstützte Formate: PDF, DOCX, ODT, RTF, TXT
+          Unterstützte Formate: PDF, DOCX, DOC, ODT, EPUB, RTF, TXT
         </p>
         <label htmlFor="file-upload" className="mt-6 inline-block px-8 py-3 bg-brand-primary text-white font-bold rounded-lg cursor-pointer hover:bg-brand-secondary transition-colors">
           Datei auswählen
@@ -81,11 +84,31 @@ export const FileUploadArea: React.FC<FileUploadAreaProps> = ({ onFileSelect })
           id="file-upload"
           type="file"
           className="hidden"
-          accept=".pdf,.docx,.txt,.odt,.odtx,.doc,.rtf"
+          accept=".pdf,.docx,.txt,.odt,.odtx,.doc,.rtf,.epub"
           onChange={handleFileChange}
         />
       </div>
 
+      {/* Extraction setting for PDFs */}
+      <div className="w-full max-w-2xl mt-4 flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4">
+        <label htmlFor="pdf-columns" className="text-sm font-medium text-gray-300 whitespace-nowrap">
+          Spaltenlayout (PDF):
+        </label>
+        <select
+          id="pdf-columns"
+          value={pdfColumns}
+          onChange={(e) => setPdfColumns(e.target.value as PdfColumnLayout)}
+          className="bg-gray-900 border border-gray-500 rounded px-3 py-2 text-white focus:border-brand-secondary focus:outline-none"
+        >
+          <option value="auto">Automatisch erkennen</option>
+          <option value="single">Einspaltig</option>
+          <option value="two">Zweispaltig</option>
+        </select>
+        <span className="text-xs text-gray-500">
+          Zweispaltige Seiten (Fachartikel, Magazine) werden Spalte für Spalte gelesen.
+        </span>
+      </div>
+
       {/* Trenner */}
       <div className="w-full max-w-2xl flex items-center gap-4 my-8">
         <div className="flex-1 h-px bg-gray-600"></div>
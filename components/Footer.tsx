@@ -1,12 +1,17 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { CostLedgerPanel } from './CostLedgerPanel';
 
 interface FooterProps {
     onClearSessions: (e: React.MouseEvent) => void;
+    onClearCache: (e: React.MouseEvent) => void;
 }
 
-export const Footer: React.FC<FooterProps> = ({ onClearSessions }) => {
+export const Footer: React.FC<FooterProps> = ({ onClearSessions, onClearCache }) => {
+    const [showCostLedger, setShowCostLedger] = useState(false);
+
     return (
         <footer className="w-full text-center p-4 mt-8 text-gray-500 text-sm relative z-50">
+            {showCostLedger && <CostLedgerPanel onClose={() => setShowCostLedger(false)} />}
             <p className="mb-4">Entwickelt für die optimale Vorbereitung von Hörbuch-Skripten.</p>
             <button
                 type="button"
@@ -15,6 +20,20 @@ export const Footer: React.FC<FooterProps> = ({ onClearSessions }) => {
             >
                 Gespeicherte Sitzungen löschen
             </button>
+            <button
+                type="button"
+                onClick={(e) => onClearCache(e)}
+                className="text-gray-500 hover:text-white hover:underline transition-colors text-xs cursor-pointer p-2"
+            >
+                KI-Cache leeren
+            </button>
+            <button
+                type="button"
+                onClick={() => setShowCostLedger(prev => !prev)}
+                className="text-gray-500 hover:text-white hover:underline transition-colors text-xs cursor-pointer p-2"
+            >
+                Kostenübersicht
+            </button>
         </footer>
     );
 };
\ No newline at end of file
@@ -1,15 +1,24 @@
 
-import React from 'react';
+import React, { useState } from 'react';
+import { BudgetPauseInfo, CacheStats, PartialResultInfo } from '../types';
+import { formatCents } from '../services/costTracker';
 
 interface ProcessingViewProps {
   etr: string;
   progress: number;
   currentChunk: number;
   totalChunks: number;
+  cacheStats?: CacheStats;
+  costCents?: number;
+  budgetPause?: BudgetPauseInfo | null;
+  onBudgetContinue?: () => void;
   onCancel?: () => void;
+  onKeepPartial?: (remainder: PartialResultInfo['remainder']) => void;
 }
 
-export const ProcessingView: React.FC<ProcessingViewProps> = ({ etr, progress, currentChunk, totalChunks, onCancel }) => {
+export const ProcessingView: React.FC<ProcessingViewProps> = ({ etr, progress, currentChunk, totalChunks, cacheStats, costCents, budgetPause, onBudgetContinue, onCancel, onKeepPartial }) => {
+  const [showPartialOptions, setShowPartialOptions] = useState(false);
+
   // Show progress bar if we have explicit chunks (cleaning) OR if progress > 0 (extraction)
   const showProgress = (totalChunks > 0 && currentChunk > 0) || progress > 0;
   
@@ -56,6 +65,35 @@ export const ProcessingView: React.FC<ProcessingViewProps> = ({ etr, progress, c
               <span className="text-gray-light">{etr || 'Berechne Zeit...'}</span>
               <span className="text-white font-semibold">{Math.round(progress)}%</span>
           </div>
+          {costCents !== undefined && (
+            <p className="mt-3 text-xs text-gray-light">
+              Kosten bisher: <span className="text-white font-semibold">{formatCents(costCents)}</span>
+            </p>
+          )}
+          {cacheStats && cacheStats.hits > 0 && (
+            <p className="mt-3 text-xs text-green-400">
+              Aus dem Cache: {cacheStats.hits} {cacheStats.hits === 1 ? 'Abschnitt' : 'Abschnitte'} · ~{cacheStats.savedTokens.toLocaleString('de-DE')} Tokens gespart
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Budget exceeded: new requests wait until the user decides */}
+      {budgetPause && (
+        <div className="mt-6 bg-yellow-900/30 border border-yellow-600/60 rounded-lg p-4 max-w-md animate-fade-in">
+          <p className="font-semibold text-white mb-1">Budget erreicht – Verarbeitung pausiert</p>
+          <p className="text-sm text-gray-light mb-3">
+            Budget: {formatCents(budgetPause.budgetCents)} · bisher: {formatCents(budgetPause.actualCents)} · voraussichtlich gesamt: {formatCents(budgetPause.projectedCents)}
+          </p>
+          {onBudgetContinue && (
+            <button
+              onClick={onBudgetContinue}
+              className="px-3 py-2 text-sm bg-brand-primary text-white rounded-lg hover:bg-brand-secondary transition-colors"
+            >
+              Trotzdem fortsetzen
+            </button>
+          )}
+          <p className="mt-2 text-xs text-gray-400">Oder unten abbrechen bzw. das Teilergebnis behalten.</p>
         </div>
       )}
 
@@ -72,6 +110,43 @@ export const ProcessingView: React.FC<ProcessingViewProps> = ({ etr, progress, c
           Abbrechen
         </button>
       )}
+
+      {/* Abort but keep the chunks that are already cleaned */}
+      {onKeepPartial && currentChunk > 0 && !showPartialOptions && (
+        <button
+          onClick={() => setShowPartialOptions(true)}
+          className="mt-3 px-4 py-2 text-sm font-medium text-gray-light border border-gray-500 rounded-lg hover:bg-gray-700 transition-colors"
+        >
+          Abbrechen und Teilergebnis behalten
+        </button>
+      )}
+      {onKeepPartial && showPartialOptions && (
+        <div className="mt-4 bg-gray-800 border border-gray-600 rounded-lg p-4 max-w-md animate-fade-in">
+          <p className="text-sm text-gray-light mb-3">
+            {currentChunk} von {totalChunks} Abschnitten sind bereinigt. Was soll mit dem unbearbeiteten Rest geschehen?
+          </p>
+          <div className="flex flex-wrap gap-2 justify-center">
+            <button
+              onClick={() => onKeepPartial('raw')}
+              className="px-3 py-2 text-sm bg-brand-primary text-white rounded-lg hover:bg-brand-secondary transition-colors"
+            >
+              Als Rohtext anhängen
+            </button>
+            <button
+              onClick={() => onKeepPartial('omitted')}
+              className="px-3 py-2 text-sm bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
+            >
+              Weglassen
+            </button>
+            <button
+              onClick={() => setShowPartialOptions(false)}
+              className="px-3 py-2 text-sm text-gray-400 hover:text-white transition-colors"
+            >
+              Zurück
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,213 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { CleaningOptions, ProcessingMode, PromptTemplate, SelectedPromptTemplate } from '../types';
+import {
+    PROMPT_PLACEHOLDERS, buildSystemPrompt, deletePromptTemplate, exportPromptTemplate, findUnknownPlaceholders,
+    getDefaultTemplate, getLatestVersion, importPromptTemplate, loadPromptTemplates, savePromptTemplateVersion
+} from '../services/promptTemplates';
+import { sanitizeFileName } from '../services/utils';
+
+interface PromptTemplateEditorProps {
+    options: CleaningOptions;
+    onSelect: (selected: SelectedPromptTemplate | undefined) => void;
+}
+
+const BUILT_IN = '';
+
+export const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ options, onSelect }) => {
+    const mode: ProcessingMode = options.processingMode || 'standard';
+    const [templates, setTemplates] = useState<PromptTemplate[]>(() => loadPromptTemplates());
+    const [isEditing, setIsEditing] = useState(false);
+    const [draft, setDraft] = useState('');
+    const [draftName, setDraftName] = useState('');
+    const [draftNote, setDraftNote] = useState('');
+    const [message, setMessage] = useState<{ type: 'info' | 'error'; text: string } | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const modeTemplates = templates.filter(template => template.mode === mode);
+    const selected = options.promptTemplate?.mode === mode ? options.promptTemplate : undefined;
+    const selectedTemplate = selected ? modeTemplates.find(template => template.name === selected.name) : undefined;
+
+    const selectVersion = (template: PromptTemplate, version: number) => {
+        const entry = template.versions.find(v => v.version === version) ?? getLatestVersion(template);
+        onSelect({ name: template.name, mode: template.mode, version: entry.version, text: entry.text });
+    };
+
+    const handleTemplateChange = (name: string) => {
+        const template = modeTemplates.find(t => t.name === name);
+        if (template) {
+            selectVersion(template, getLatestVersion(template).version);
+        } else {
+            onSelect(undefined);
+        }
+        setIsEditing(false);
+    };
+
+    const handleStartEditing = () => {
+        setDraft(selected ? selected.text : getDefaultTemplate(mode));
+        setDraftName(selected ? selected.name : '');
+        setDraftNote('');
+        setMessage(null);
+        setIsEditing(true);
+    };
+
+    const handleSave = () => {
+        const name = draftName.trim();
+        if (!name) {
+            setMessage({ type: 'error', text: 'Bitte einen Namen für die Vorlage angeben.' });
+            return;
+        }
+        const updated = savePromptTemplateVersion(name, mode, draft, draftNote);
+        setTemplates(updated);
+        const template = updated.find(t => t.name === name && t.mode === mode)!;
+        selectVersion(template, getLatestVersion(template).version);
+        setMessage({ type: 'info', text: `„${name}" als Version ${getLatestVersion(template).version} gespeichert.` });
+        setIsEditing(false);
+    };
+
+    const handleDelete = () => {
+        if (!selectedTemplate) return;
+        if (window.confirm(`Vorlage „${selectedTemplate.name}" mit allen Versionen löschen?`)) {
+            setTemplates(deletePromptTemplate(selectedTemplate.id));
+            onSelect(undefined);
+        }
+    };
+
+    const handleExport = () => {
+        if (!selectedTemplate) return;
+        const blob = new Blob([exportPromptTemplate(selectedTemplate)], { type: 'application/json;charset=utf-8' });
+        let url: string | null = null;
+        try {
+            url = URL.createObjectURL(blob);
+            const a = document.createElement('a');
+            a.href = url;
+            a.download = `prompt_${sanitizeFileName(selectedTemplate.name)}.json`;
+            document.body.appendChild(a);
+            a.click();
+            document.body.removeChild(a);
+        } catch (e) {
+            console.error("Export failed", e);
+            setMessage({ type: 'error', text: 'Fehler beim Exportieren der Vorlage.' });
+        } finally {
+            if (url) URL.revokeObjectURL(url);
+        }
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const updated = importPromptTemplate(await file.text());
+            setTemplates(updated);
+            setMessage({ type: 'info', text: `Vorlage aus „${file.name}" importiert.` });
+        } catch (error: any) {
+            setMessage({ type: 'error', text: error.message || 'Import fehlgeschlagen.' });
+        }
+    };
+
+    // Preview of the assembled prompt with the current options
+    const previewText = isEditing ? draft : selected?.text;
+    const preview = useMemo(() => {
+        const previewTemplate = previewText !== undefined ? { name: '', mode, version: 0, text: previewText } : undefined;
+        return buildSystemPrompt({ ...options, promptTemplate: previewTemplate });
+    }, [options, previewText, mode]);
+    const unknownPlaceholders = isEditing ? findUnknownPlaceholders(draft, mode) : [];
+
+    return (
+        <fieldset className="p-4 border border-gray-500 rounded-lg">
+            <legend className="px-2 text-lg font-semibold text-white">System-Prompt (Vorlage)</legend>
+            <p className="text-xs text-gray-400 mb-3 px-2">
+                Vorlagen gelten für den gewählten Modus ({mode === 'meditation' ? 'Meditation' : 'Standard'}). Platzhalter wie <code className="bg-gray-900 px-1 rounded">{'{{hyphenation}}'}</code> werden je nach Einstellungen gefüllt.
+            </p>
+
+            <div className="flex flex-wrap gap-2 items-center px-2">
+                <select
+                    value={selected?.name ?? BUILT_IN}
+                    onChange={(e) => handleTemplateChange(e.target.value)}
+                    className="bg-gray-900 border border-gray-500 rounded px-3 py-2 text-white text-sm focus:border-brand-secondary focus:outline-none"
+                >
+                    <option value={BUILT_IN}>Eingebaute Vorlage</option>
+                    {modeTemplates.map(template => (
+                        <option key={template.id} value={template.name}>{template.name}</option>
+                    ))}
+                </select>
+                {selectedTemplate && (
+                    <select
+                        value={selected?.version}
+                        onChange={(e) => selectVersion(selectedTemplate, parseInt(e.target.value, 10))}
+                        className="bg-gray-900 border border-gray-500 rounded px-3 py-2 text-white text-sm focus:border-brand-secondary focus:outline-none"
+                    >
+                        {selectedTemplate.versions.map(version => (
+                            <option key={version.version} value={version.version}>
+                                v{version.version} – {new Date(version.createdAt).toLocaleDateString('de-DE')}{version.note ? ` – ${version.note}` : ''}
+                            </option>
+                        ))}
+                    </select>
+                )}
+                <button type="button" onClick={isEditing ? () => setIsEditing(false) : handleStartEditing} className="text-xs bg-brand-primary text-white px-2 py-1 rounded hover:bg-brand-secondary transition-colors">
+                    {isEditing ? 'Editor schließen' : 'Bearbeiten'}
+                </button>
+                {selectedTemplate && (
+                    <>
+                        <button type="button" onClick={handleExport} className="text-xs bg-gray-700 text-white px-2 py-1 rounded hover:bg-gray-600 transition-colors">Exportieren</button>
+                        <button type="button" onClick={handleDelete} className="text-xs text-red-400 hover:underline">Löschen</button>
+                    </>
+                )}
+                <button type="button" onClick={() => fileInputRef.current?.click()} className="text-xs bg-gray-700 text-white px-2 py-1 rounded hover:bg-gray-600 transition-colors">Importieren</button>
+                <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+            </div>
+
+            {message && (
+                <p className={`mt-2 px-2 text-xs ${message.type === 'error' ? 'text-red-400' : 'text-green-400'}`}>{message.text}</p>
+            )}
+
+            {isEditing && (
+                <div className="mt-4 px-2 space-y-3">
+                    <textarea
+                        value={draft}
+                        onChange={(e) => setDraft(e.target.value)}
+                        spellCheck={false}
+                        className="w-full bg-gray-900 border border-gray-600 rounded-lg p-3 text-xs font-mono text-gray-light focus:border-brand-secondary focus:outline-none h-64 resize-y"
+                    />
+                    <div className="text-xs text-gray-400">
+                        <span className="font-semibold text-gray-300">Platzhalter:</span>
+                        <ul className="mt-1 grid grid-cols-1 md:grid-cols-2 gap-x-4">
+                            {PROMPT_PLACEHOLDERS[mode].map(placeholder => (
+                                <li key={placeholder.name}><code className="text-brand-secondary">{`{{${placeholder.name}}}`}</code> – {placeholder.description}</li>
+                            ))}
+                        </ul>
+                    </div>
+                    {unknownPlaceholders.length > 0 && (
+                        <p className="text-xs text-orange-300">
+                            Unbekannte Platzhalter (werden unverändert gesendet): {unknownPlaceholders.map(name => `{{${name}}}`).join(', ')}
+                        </p>
+                    )}
+                    <div className="flex flex-wrap gap-2 items-center">
+                        <input
+                            type="text"
+                            value={draftName}
+                            onChange={(e) => setDraftName(e.target.value)}
+                            placeholder="Name der Vorlage"
+                            className="bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm text-white"
+                        />
+                        <input
+                            type="text"
+                            value={draftNote}
+                            onChange={(e) => setDraftNote(e.target.value)}
+                            placeholder="Änderungsnotiz (optional)"
+                            className="flex-1 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm text-white"
+                        />
+                        <button type="button" onClick={handleSave} className="text-xs bg-brand-primary text-white px-3 py-1.5 rounded hover:bg-brand-secondary transition-colors">
+                            Als neue Version speichern
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            <details className="mt-4 px-2">
+                <summary className="text-xs text-gray-400 cursor-pointer hover:text-white">Vorschau des zusammengesetzten System-Prompts</summary>
+                <pre className="mt-2 max-h-64 overflow-y-auto whitespace-pre-wrap bg-gray-900 border border-gray-700 rounded p-3 text-xs text-gray-300">{preview}</pre>
+            </details>
+        </fieldset>
+    );
+};
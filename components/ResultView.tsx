@@ -1,6 +1,10 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { DetailedAction, SummaryState, ResultViewProps } from '../types';
+import { DetailedAction, SummaryState, ResultViewProps, SuspiciousChunk, ChunkInvariantReport, InvariantViolation, ChunkEditLog, AppliedEdit, ChunkRedactionLog, PiiKind } from '../types';
 import { sanitizeTextContent, sanitizeFileName } from '../services/utils';
+import { stripKeepMarkers } from '../services/keepRegions';
+import { createAuditBundle } from '../services/auditLog';
+import { PII_KIND_LABELS, createRedactionReport, summarizeRedactions } from '../services/piiRedactor';
+import { PARTIAL_RESULT_MARKER } from '../constants';
 import { CopyIcon, DownloadIcon, RefreshIcon, SaveIcon, CheckBadgeIcon, PlayIcon, StopIcon, ExclamationTriangleIcon, EyeIcon, EyeSlashIcon, SearchIcon, TrashIcon } from './icons';
 
 const SearchReplacePanel: React.FC<{
@@ -122,7 +126,215 @@ const SummaryDisplay: React.FC<{ summary: DetailedAction[]; summaryState: Summar
     );
 };
 
-export const ResultView: React.FC<ResultViewProps> = ({ text, rawText, fileName, onReset, summary, summaryState, onTextChange }) => {
+/**
+ * Finds the position of a chunk excerpt in the (possibly edited) result text.
+ * Tries shorter prefixes if the full excerpt was changed by sanitizing or manual edits.
+ */
+const findExcerptPosition = (text: string, excerpt: string): number => {
+    for (const length of [excerpt.length, 40, 20]) {
+        const needle = excerpt.substring(0, length).trim();
+        if (!needle) continue;
+        const index = text.indexOf(needle);
+        if (index !== -1) return index;
+    }
+    return -1;
+};
+
+const VIOLATION_LABELS: Record<InvariantViolation['kind'], string> = {
+    number: 'Zahlen',
+    name: 'Namen/Begriffe',
+    pause: 'Pausen-Tags',
+    placeholder: 'Geschützte Regieanweisungen',
+    glossary: 'Glossar-Begriffe',
+};
+
+const InvariantReportDisplay: React.FC<{ reports: ChunkInvariantReport[]; onJump: (excerpt: string) => void }> = ({ reports, onJump }) => {
+    if (reports.length === 0) {
+        return null;
+    }
+
+    const totalViolations = reports.reduce((acc, report) => acc + report.violations.length, 0);
+
+    return (
+        <div className="w-full bg-gray-800/50 border border-orange-600/40 rounded-xl p-4 sm:p-6 mb-6 animate-fade-in">
+            <h3 className="text-lg font-semibold text-white mb-2 flex items-center gap-2">
+                <ExclamationTriangleIcon className="w-6 h-6 text-orange-400" />
+                Prüfbericht: Fehlende Inhalte
+                <span className="text-sm font-normal text-gray-light">({totalViolations} in {reports.length} Abschnitten)</span>
+            </h3>
+            <p className="text-sm text-gray-light mb-3">
+                Diese Zahlen, Begriffe oder Tags standen im Original, fehlen aber nach der KI-Bereinigung.
+            </p>
+            <ul className="space-y-2">
+                {reports.map(report => {
+                    const byKind = report.violations.reduce((acc, violation) => {
+                        (acc[violation.kind] = acc[violation.kind] || []).push(violation.value);
+                        return acc;
+                    }, {} as Partial<Record<InvariantViolation['kind'], string[]>>);
+
+                    return (
+                        <li key={report.chunkIndex} className="flex flex-col sm:flex-row sm:items-start justify-between gap-2 bg-gray-800/60 rounded-lg px-3 py-2">
+                            <div className="text-sm space-y-0.5">
+                                <span className="font-semibold text-white">Abschnitt {report.chunkIndex + 1}</span>
+                                {(Object.keys(byKind) as InvariantViolation['kind'][]).map(kind => (
+                                    <div key={kind} className="text-gray-light">
+                                        <span className="text-orange-300">{VIOLATION_LABELS[kind]}:</span> {byKind[kind]!.join(', ')}
+                                    </div>
+                                ))}
+                            </div>
+                            <button
+                                onClick={() => onJump(report.excerpt)}
+                                className="shrink-0 px-3 py-1.5 bg-gray-700 text-white text-sm rounded hover:bg-gray-600 transition-colors"
+                            >
+                                Zur Stelle
+                            </button>
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+};
+
+const SuspiciousChunksDisplay: React.FC<{ chunks: SuspiciousChunk[]; onJump: (excerpt: string) => void }> = ({ chunks, onJump }) => {
+    if (chunks.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className="w-full bg-yellow-900/20 border border-yellow-600/50 rounded-xl p-4 sm:p-6 mb-6 animate-fade-in">
+            <h3 className="text-lg font-semibold text-white mb-2 flex items-center gap-2">
+                <ExclamationTriangleIcon className="w-6 h-6 text-yellow-500" />
+                Auffällige Abschnitte
+                <span className="text-sm font-normal text-gray-light">({chunks.length})</span>
+            </h3>
+            <p className="text-sm text-gray-light mb-3">
+                Bei diesen Abschnitten wich die KI-Ausgabe stark vom Original ab, enthielt eigene Kommentare bzw. befolgte Anweisungen aus dem Dokument, oder die KI-Verarbeitung schlug fehl. Bitte prüfen Sie die Stellen manuell.
+            </p>
+            <ul className="space-y-2">
+                {chunks.map((chunk, index) => (
+                    <li key={`${chunk.chunkIndex}-${index}`} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 bg-gray-800/60 rounded-lg px-3 py-2">
+                        <div className="text-sm">
+                            <span className="font-semibold text-white">Abschnitt {chunk.chunkIndex + 1}:</span>{' '}
+                            <span className="text-gray-light">{chunk.message}</span>
+                            {chunk.excerpt && (
+                                <div className="text-xs text-gray-500 italic mt-1 truncate">„{chunk.excerpt}…"</div>
+                            )}
+                        </div>
+                        <button
+                            onClick={() => onJump(chunk.excerpt)}
+                            className="shrink-0 px-3 py-1.5 bg-gray-700 text-white text-sm rounded hover:bg-gray-600 transition-colors"
+                        >
+                            Zur Stelle
+                        </button>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+const EDIT_OP_LABELS: Record<AppliedEdit['op'], string> = {
+    delete: 'Gelöscht',
+    replace: 'Ersetzt',
+    join: 'Verbunden',
+};
+
+// Shows the edit operations of outputMode 'edits' - every AI change with its line
+const EditLogDisplay: React.FC<{ logs: ChunkEditLog[]; onJump: (excerpt: string) => void }> = ({ logs, onJump }) => {
+    if (logs.length === 0) {
+        return null;
+    }
+
+    const allEdits = logs.flatMap(log => log.edits);
+    const rejectedCount = allEdits.filter(edit => edit.rejectedReason).length;
+
+    return (
+        <div className="w-full bg-gray-800/50 border border-blue-600/40 rounded-xl p-4 sm:p-6 mb-6 animate-fade-in">
+            <h3 className="text-lg font-semibold text-white mb-2">
+                KI-Bearbeitungen
+                <span className="ml-2 text-sm font-normal text-gray-light">({allEdits.length - rejectedCount} angewendet, {rejectedCount} verworfen)</span>
+            </h3>
+            <ul className="space-y-2 max-h-80 overflow-y-auto">
+                {logs.map(log => (
+                    <li key={log.chunkIndex} className="bg-gray-800/60 rounded-lg px-3 py-2">
+                        <details>
+                            <summary className="cursor-pointer text-sm">
+                                <span className="font-semibold text-white">Abschnitt {log.chunkIndex + 1}</span>
+                                <span className="text-gray-light"> – {log.edits.length} Operation(en)</span>
+                                <button
+                                    onClick={(e) => { e.preventDefault(); onJump(log.excerpt); }}
+                                    className="ml-3 px-2 py-0.5 bg-gray-700 text-white text-xs rounded hover:bg-gray-600 transition-colors"
+                                >
+                                    Zur Stelle
+                                </button>
+                            </summary>
+                            <ul className="mt-2 space-y-1 font-mono text-xs">
+                                {log.edits.map((edit, index) => (
+                                    <li key={index} className={edit.rejectedReason ? 'text-gray-500 line-through' : 'text-gray-light'}>
+                                        <span className="text-blue-300">Z. {edit.line} {EDIT_OP_LABELS[edit.op]}:</span>{' '}
+                                        <span className="text-red-300">„{edit.before}"</span>
+                                        {edit.op !== 'delete' && <> → <span className="text-green-300">„{edit.after}"</span></>}
+                                        {edit.rejectedReason && <span className="ml-2 no-underline text-orange-300">({edit.rejectedReason})</span>}
+                                    </li>
+                                ))}
+                            </ul>
+                        </details>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+// Shows which personal data was pseudonymized before the cloud requests (PII redaction)
+const RedactionReportDisplay: React.FC<{ logs: ChunkRedactionLog[]; onDownload: () => void }> = ({ logs, onDownload }) => {
+    if (logs.length === 0) {
+        return null;
+    }
+
+    const summary = summarizeRedactions(logs);
+    const leaks = logs.flatMap(log => log.leaks.map(value => ({ chunkIndex: log.chunkIndex, value })));
+
+    return (
+        <div className="w-full bg-gray-800/50 border border-green-600/40 rounded-xl p-4 sm:p-6 mb-6 animate-fade-in">
+            <div className="flex justify-between items-center mb-2">
+                <h3 className="text-lg font-semibold text-white">Datenschutz-Bericht</h3>
+                <button onClick={onDownload} className="px-3 py-1.5 bg-gray-700 text-white text-sm rounded hover:bg-gray-600 transition-colors">
+                    Bericht herunterladen (JSON)
+                </button>
+            </div>
+            <p className="text-sm text-gray-light mb-3">
+                Diese personenbezogenen Daten wurden vor jeder KI-Anfrage durch Platzhalter ersetzt und nach der Bereinigung wieder eingesetzt. Sie haben den Browser nicht verlassen.
+            </p>
+            <div className="flex flex-wrap gap-3 text-xs mb-3">
+                {(Object.keys(summary) as PiiKind[]).filter(kind => summary[kind].values > 0).map(kind => (
+                    <span key={kind} className="bg-gray-900 rounded px-2 py-1 text-gray-light">
+                        {PII_KIND_LABELS[kind]}: <span className="text-white font-semibold">{summary[kind].values}</span> ({summary[kind].occurrences}×)
+                    </span>
+                ))}
+            </div>
+            {leaks.length > 0 && (
+                <p className="text-sm text-red-400 mb-3">
+                    Achtung: In {leaks.length} Anfrage(n) wurden trotz Ersetzung noch personenbezogene Daten erkannt ({leaks.map(leak => `Abschnitt ${leak.chunkIndex + 1}: „${leak.value}"`).join(', ')}).
+                </p>
+            )}
+            <details>
+                <summary className="cursor-pointer text-sm text-gray-light hover:text-white">Ersetzungen je Abschnitt</summary>
+                <ul className="mt-2 space-y-1 max-h-64 overflow-y-auto font-mono text-xs">
+                    {logs.map(log => (
+                        <li key={log.chunkIndex} className="text-gray-light">
+                            <span className="text-blue-300">Abschnitt {log.chunkIndex + 1}:</span>{' '}
+                            {log.entries.map(entry => `„${entry.value}" → ${entry.placeholder}`).join(', ')}
+                        </li>
+                    ))}
+                </ul>
+            </details>
+        </div>
+    );
+};
+
+export const ResultView: React.FC<ResultViewProps> = ({ text, rawText, fileName, onReset, summary, summaryState, onTextChange, suspiciousChunks = [], invariantReports = [], editLogs = [], redactionLogs = [], partialResult, auditLog }) => {
     const [copyButtonText, setCopyButtonText] = useState('Kopieren');
     const [saveButtonText, setSaveButtonText] = useState('Speichern');
     const [isSpeaking, setIsSpeaking] = useState(false);
@@ -142,6 +354,10 @@ export const ResultView: React.FC<ResultViewProps> = ({ text, rawText, fileName,
     // Use ref to track mounting status to avoid state updates on unmounted component
     const isMounted = useRef(true);
 
+    // Ref to the result textarea (for jumping to reported chunks)
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const [pendingJump, setPendingJump] = useState<string | null>(null);
+
     useEffect(() => {
         setSpeechSynth(window.speechSynthesis);
         isMounted.current = true;
@@ -179,6 +395,30 @@ export const ResultView: React.FC<ResultViewProps> = ({ text, rawText, fileName,
         }
     }, [viewMode, rawText, text]);
 
+    // Select the excerpt of a reported chunk in the result textarea
+    useEffect(() => {
+        if (!pendingJump || viewMode !== 'clean' || !textareaRef.current) return;
+        const textarea = textareaRef.current;
+        const position = findExcerptPosition(text, pendingJump);
+        setPendingJump(null);
+
+        if (position === -1) {
+            alert('Die Stelle konnte im Text nicht mehr gefunden werden (wurde sie bearbeitet?).');
+            return;
+        }
+
+        const lineIndex = text.substring(0, position).split('\n').length - 1;
+        const totalLines = text.split('\n').length;
+        textarea.focus();
+        textarea.setSelectionRange(position, position + Math.min(pendingJump.length, text.length - position));
+        textarea.scrollTop = Math.max(0, (lineIndex / totalLines) * textarea.scrollHeight - textarea.clientHeight / 3);
+    }, [pendingJump, viewMode, text]);
+
+    const handleJumpToChunk = (excerpt: string) => {
+        setViewMode('clean');
+        setPendingJump(excerpt);
+    };
+
     const handleReplaceAll = (searchStr: string, replaceStr: string, useRegex: boolean): number => {
         try {
             let regex: RegExp;
@@ -214,7 +454,7 @@ export const ResultView: React.FC<ResultViewProps> = ({ text, rawText, fileName,
 
     const handleCopy = () => {
         const textToCopy = viewMode === 'original' ? (rawText || '') : text;
-        navigator.clipboard.writeText(textToCopy);
+        navigator.clipboard.writeText(stripKeepMarkers(textToCopy));
         setCopyButtonText('Kopiert!');
         setTimeout(() => {
             if (isMounted.current) setCopyButtonText('Kopieren');
@@ -255,27 +495,18 @@ export const ResultView: React.FC<ResultViewProps> = ({ text, rawText, fileName,
         }
     };
 
-    const executeDownload = () => {
-        const contentToDownload = text;
-
-        // 1. Sanitize text content (remove control chars, normalize unicode)
-        const cleanText = sanitizeTextContent(contentToDownload);
-
-        // 2. Add UTF-8 BOM (\uFEFF) to ensure Windows/Excel compatibility
-        const bom = '\uFEFF';
-        const blob = new Blob([bom + cleanText], { type: 'text/plain;charset=utf-8' });
-
+    const downloadBlob = (blob: Blob, suffix: string, extension: string) => {
         let url: string | null = null;
         try {
             url = URL.createObjectURL(blob);
             const a = document.createElement('a');
             a.href = url;
 
-            // 3. Sanitize filename
+            // Sanitize filename
             const safeName = sanitizeFileName(fileName);
             // Safe Timestamp: Replace : and . with - and trim the ms part, replace T with _
             const timestamp = new Date().toISOString().replace('T', '_').replace(/[:.]/g, '-').slice(0, 19);
-            a.download = `${safeName}_bereinigt_${timestamp}.txt`;
+            a.download = `${safeName}_${suffix}_${timestamp}.${extension}`;
 
             document.body.appendChild(a);
             a.click();
@@ -290,6 +521,25 @@ export const ResultView: React.FC<ResultViewProps> = ({ text, rawText, fileName,
         }
     };
 
+    const executeDownload = () => {
+        // 1. Sanitize text content (remove control chars, normalize unicode), drop {{keep}} markers
+        const cleanText = stripKeepMarkers(sanitizeTextContent(text));
+
+        // 2. Add UTF-8 BOM (\uFEFF) to ensure Windows/Excel compatibility
+        const bom = '\uFEFF';
+        downloadBlob(new Blob([bom + cleanText], { type: 'text/plain;charset=utf-8' }), 'bereinigt', 'txt');
+    };
+
+    const handleRedactionReportDownload = () => {
+        downloadBlob(new Blob([createRedactionReport(redactionLogs, fileName)], { type: 'application/json;charset=utf-8' }), 'datenschutz', 'json');
+    };
+
+    // Audit bundle: prompts and raw responses per chunk, API keys redacted
+    const handleAuditDownload = () => {
+        if (!auditLog) return;
+        downloadBlob(new Blob([createAuditBundle(auditLog, fileName)], { type: 'application/json;charset=utf-8' }), 'audit', 'json');
+    };
+
     const triggerAction = (action: 'save' | 'download') => {
         if (text.length > LARGE_TEXT_THRESHOLD) {
             setPendingAction(action);
@@ -313,7 +563,7 @@ export const ResultView: React.FC<ResultViewProps> = ({ text, rawText, fileName,
     };
 
     const handleSpeak = () => {
-        const textToSpeak = viewMode === 'original' ? (rawText || '') : text;
+        const textToSpeak = stripKeepMarkers(viewMode === 'original' ? (rawText || '') : text);
 
         if (!speechSynth) return;
 
@@ -488,6 +738,12 @@ export const ResultView: React.FC<ResultViewProps> = ({ text, rawText, fileName,
                         <DownloadIcon className="w-5 h-5" />
                         Download
                     </button>
+                    {auditLog && auditLog.records.length > 0 && (
+                        <button onClick={handleAuditDownload} className="flex items-center gap-2 px-4 py-2 bg-gray-700 text-white font-semibold rounded-lg hover:bg-gray-600 transition-colors w-full sm:w-auto justify-center" title="Prompts, Rohantworten, Wiederholungen und Fallback-Gründe je Abschnitt (API-Schlüssel geschwärzt)">
+                            <DownloadIcon className="w-5 h-5" />
+                            Audit-Log (JSON)
+                        </button>
+                    )}
 
                     <div className="w-px h-8 bg-gray-600 mx-2 hidden sm:block"></div>
 
@@ -504,8 +760,30 @@ export const ResultView: React.FC<ResultViewProps> = ({ text, rawText, fileName,
                 </div>
             </div>
 
+            {partialResult && (
+                <div className="w-full bg-orange-900/20 border border-orange-600/50 rounded-xl p-4 mb-6 flex items-start gap-3 animate-fade-in">
+                    <ExclamationTriangleIcon className="w-6 h-6 text-orange-400 shrink-0" />
+                    <div className="text-sm text-gray-light">
+                        <p className="font-semibold text-white">Teilergebnis: {partialResult.processedChunks} von {partialResult.totalChunks} Abschnitten wurden bereinigt.</p>
+                        {partialResult.remainder === 'raw' ? (
+                            <p>Der unbearbeitete Rest folgt als Rohtext nach der Markierung <code className="bg-gray-900 px-1 rounded">{PARTIAL_RESULT_MARKER}</code>.</p>
+                        ) : (
+                            <p>Der unbearbeitete Rest wurde weggelassen. Die Bereinigung kann später über „Fortsetzen" abgeschlossen werden.</p>
+                        )}
+                    </div>
+                </div>
+            )}
+
             {viewMode === 'clean' && <SummaryDisplay summary={summary} summaryState={summaryState} />}
 
+            {viewMode === 'clean' && <InvariantReportDisplay reports={invariantReports} onJump={handleJumpToChunk} />}
+
+            {viewMode === 'clean' && <RedactionReportDisplay logs={redactionLogs} onDownload={handleRedactionReportDownload} />}
+
+            <SuspiciousChunksDisplay chunks={suspiciousChunks} onJump={handleJumpToChunk} />
+
+            {viewMode === 'diff' && <EditLogDisplay logs={editLogs} onJump={handleJumpToChunk} />}
+
             <div className="w-full flex-grow relative">
                 {viewMode === 'original' && (
                     <div className="absolute top-4 right-6 pointer-events-none">
@@ -528,6 +806,7 @@ export const ResultView: React.FC<ResultViewProps> = ({ text, rawText, fileName,
                     </div>
                 ) : (
                     <textarea
+                        ref={textareaRef}
                         readOnly={viewMode === 'original'}
                         value={viewMode === 'original' ? (rawText || '') : text}
                         className={`w-full h-[60vh] rounded-xl p-6 border focus:ring-2 focus:ring-brand-secondary focus:outline-none transition-colors ${viewMode === 'original'
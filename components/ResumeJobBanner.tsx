@@ -0,0 +1,45 @@
+import React from 'react';
+import { CleaningJob } from '../types';
+import { RefreshIcon, TrashIcon } from './icons';
+
+interface ResumeJobBannerProps {
+    job: CleaningJob;
+    onResume: () => void;
+    onDiscard: () => void;
+}
+
+/**
+ * Offers to continue an interrupted cleaning run (crash, reload or cancel).
+ */
+export const ResumeJobBanner: React.FC<ResumeJobBannerProps> = ({ job, onResume, onDiscard }) => {
+    const processed = job.chunkOutputs.length;
+    const percent = job.totalChunks > 0 ? Math.round((processed / job.totalChunks) * 100) : 0;
+    const updated = new Date(job.updatedAt).toLocaleString('de-DE');
+
+    return (
+        <div className="w-full bg-blue-900/30 border border-blue-600/50 rounded-xl p-4 mb-6 flex flex-col sm:flex-row sm:items-center justify-between gap-4 animate-fade-in">
+            <div>
+                <h3 className="text-white font-semibold">Unterbrochene Bereinigung gefunden</h3>
+                <p className="text-sm text-gray-light">
+                    <span className="text-white">{job.fileName || 'Unbenannt'}</span> – {processed} / {job.totalChunks} Abschnitte ({percent}%) · zuletzt gespeichert {updated}
+                </p>
+            </div>
+            <div className="flex gap-2 shrink-0">
+                <button
+                    onClick={onDiscard}
+                    className="flex items-center gap-2 px-4 py-2 bg-gray-700 text-white text-sm font-semibold rounded-lg hover:bg-gray-600 transition-colors"
+                >
+                    <TrashIcon className="w-4 h-4" />
+                    Verwerfen
+                </button>
+                <button
+                    onClick={onResume}
+                    className="flex items-center gap-2 px-4 py-2 bg-brand-primary text-white text-sm font-semibold rounded-lg hover:bg-brand-secondary transition-colors"
+                >
+                    <RefreshIcon className="w-4 h-4" />
+                    Fortsetzen
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -1,5 +1,15 @@
 
 export const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50 MB
-export const CHUNK_SIZE = 4900; // Adjusted for optimal 3-minute chunks processing
+export const CHUNK_SIZE = 4900; // Adjusted for optimal 3-minute chunks processing (upper bound in characters)
+export const MIN_CHUNK_TOKENS = 150; // Lower bound for very small local models
+export const CHARS_PER_TOKEN = 3; // German text averages ~3 characters per token - only for converting token limits into lengths (counting: estimateTokens)
+export const PROMPT_RESERVE_TOKENS = 2000; // Space for the system prompt of the summary call in the context window
+export const SUMMARY_EXCERPT_LENGTH = 4000; // Max characters per text excerpt sent to the summary call
+export const CONTEXT_OVERLAP_LENGTH = 300; // Characters of the neighbouring chunks sent as read-only context
 export const PREVIEW_LENGTH = 100000; // Character limit for preview
+export const DRIFT_THRESHOLD = 0.35; // Max. word-level drift between chunk input and AI output before retry/fallback
+export const MESS_THRESHOLD = 0.3; // Hybrid mode: chunks with a lower mess score are only cleaned offline
+export const EDIT_MODE_OUTPUT_RATIO = 0.15; // Estimated output tokens per input token in outputMode 'edits'
+export const COST_LEDGER_MAX_ENTRIES = 200; // Runs kept in the persisted cost ledger
+export const PARTIAL_RESULT_MARKER = '[KI-BEREINIGUNG ABGEBROCHEN – AB HIER UNBEARBEITETER ROHTEXT]'; // Marks where AI processing stopped
 export const ETR_HISTORY_SIZE = 5; // Number of chunks to consider for ETR calculation
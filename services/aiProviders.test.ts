@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AiHttpError, createProviderAdapter, listLocalModels } from './aiProviders';
+import { cleanTextStream } from './geminiService';
+import { CleaningOptions, TokenUsage } from '../types';
+import { StubAiServer, StubHandler, delta, sendError, sendSse, startStubAiServer } from './testing/stubAiServer';
+
+/**
+ * The non-Gemini providers all speak the OpenAI-compatible protocol - tested
+ * through the 'local' provider (no API key needed) against a stub HTTP server.
+ */
+
+let stub: StubAiServer;
+let baseUrl: string;
+let requests: StubAiServer['requests'];
+let handler: StubHandler;
+
+beforeEach(async () => {
+    stub = await startStubAiServer();
+    stub.setHandler((request, response) => handler(request, response));
+    baseUrl = stub.baseUrl;
+    requests = stub.requests;
+});
+
+afterEach(() => stub.close());
+
+const localOptions = (): CleaningOptions => ({
+    chapterStyle: 'keep',
+    listStyle: 'keep',
+    hyphenationStyle: 'keep',
+    aiProvider: 'local',
+    localLlm: { baseUrl, model: 'stub-model', timeoutSeconds: 10 },
+});
+
+async function collect(stream: AsyncIterable<string>): Promise<string> {
+    let text = '';
+    for await (const part of stream) text += part;
+    return text;
+}
+
+describe('OpenAI-compatible adapter', () => {
+    it('streams the deltas and the final usage', async () => {
+        handler = (_request, response) => sendSse(response, [
+            delta('Hallo '),
+            delta('Welt.'),
+            { choices: [], usage: { prompt_tokens: 42, completion_tokens: 7 } },
+        ]);
+        const adapter = createProviderAdapter('local', undefined, { baseUrl, model: 'stub-model', timeoutSeconds: 10 });
+
+        const chunks = [];
+        for await (const chunk of await adapter.streamText({ systemPrompt: 'System', userPrompt: 'Text', temperature: 0 })) {
+            chunks.push(chunk);
+        }
+
+        expect(chunks.map(chunk => chunk.text).join('')).toBe('Hallo Welt.');
+        expect(chunks[chunks.length - 1].usage).toEqual({ prompt: 42, output: 7 });
+        expect(requests[0].url).toBe('/v1/chat/completions');
+        expect(requests[0].body).toMatchObject({
+            model: 'stub-model',
+            stream: true,
+            temperature: 0,
+            messages: [{ role: 'system', content: 'System' }, { role: 'user', content: 'Text' }],
+        });
+    });
+
+    it('skips malformed events', async () => {
+        handler = (_request, response) => sendSse(response, [delta('Ein Satz.')], 'data: {kaputt\n\n: keep-alive\n\n');
+        const adapter = createProviderAdapter('local', undefined, { baseUrl, model: 'stub-model', timeoutSeconds: 10 });
+
+        let text = '';
+        for await (const chunk of await adapter.streamText({ userPrompt: 'Text' })) text += chunk.text;
+
+        expect(text).toBe('Ein Satz.');
+    });
+
+    it('returns text and usage of a non-streaming request', async () => {
+        handler = (_request, response) => {
+            response.writeHead(200, { 'Content-Type': 'application/json' });
+            response.end(JSON.stringify({ choices: [{ message: { content: '[]' } }], usage: { prompt_tokens: 10, completion_tokens: 2 } }));
+        };
+        const adapter = createProviderAdapter('local', undefined, { baseUrl, model: 'stub-model', timeoutSeconds: 10 });
+
+        await expect(adapter.generateText({ userPrompt: 'Text', json: true })).resolves.toEqual({ text: '[]', usage: { prompt: 10, output: 2 } });
+        expect(requests[0].body.stream).toBe(false);
+    });
+
+    it('rejects HTTP errors with status and API message', async () => {
+        handler = (_request, response) => sendError(response, 401, 'Incorrect API key provided');
+        const adapter = createProviderAdapter('local', undefined, { baseUrl, model: 'stub-model', timeoutSeconds: 10 });
+
+        const error = await adapter.streamText({ userPrompt: 'Text' }).catch(e => e);
+        expect(error).toBeInstanceOf(AiHttpError);
+        expect(error.status).toBe(401);
+        expect(error.message).toContain('Incorrect API key provided');
+    });
+
+    it('lists the models of a local server', async () => {
+        handler = (_request, response) => {
+            response.writeHead(200, { 'Content-Type': 'application/json' });
+            response.end(JSON.stringify({ data: [{ id: 'llama3.1:8b' }, { id: 'qwen2.5:7b' }, {}] }));
+        };
+
+        await expect(listLocalModels(baseUrl)).resolves.toEqual(['llama3.1:8b', 'qwen2.5:7b']);
+        expect(requests[0].url).toBe('/v1/models');
+    });
+});
+
+describe('cleanTextStream with an OpenAI-compatible provider', () => {
+    it('streams the cleaned text and reports the usage once', async () => {
+        handler = (_request, response) => sendSse(response, [
+            delta('Der bereinigte '),
+            { choices: [{ delta: { content: 'Text.' } }], usage: { prompt_tokens: 100, completion_tokens: 5 } },
+            { choices: [], usage: { prompt_tokens: 120, completion_tokens: 9 } },
+        ]);
+        const usages: TokenUsage[] = [];
+
+        const text = await collect(cleanTextStream('Der bereinigte Text.', localOptions(), undefined, usage => usages.push(usage)));
+
+        expect(text).toBe('Der bereinigte Text.');
+        expect(usages).toEqual([{ prompt: 120, output: 9 }]);
+        expect(requests[0].body.messages[1].content).toContain('Der bereinigte Text.');
+    });
+
+    it.each([
+        [401, 'Unauthorized', 'API-Schlüssel'],
+        [402, 'Payment required', 'Guthaben'],
+        [404, 'model "stub-model" not found', 'lokale Modell wurde nicht gefunden'],
+        [400, "This model's maximum context length is 8192 tokens", 'Kontextlimit überschritten'],
+    ])('maps HTTP %i to a German error message', async (status, message, expected) => {
+        handler = (_request, response) => sendError(response, status, message);
+
+        await expect(collect(cleanTextStream('Text.', localOptions()))).rejects.toThrow(expected);
+        // Only transient errors are retried
+        expect(requests).toHaveLength(1);
+    });
+});
@@ -0,0 +1,457 @@
+import { GoogleGenAI } from "@google/genai";
+import { AiProvider, LocalLlmSettings, ModelInfo, TokenUsage } from "../types";
+import { CHARS_PER_TOKEN, MIN_CHUNK_TOKENS, PROMPT_RESERVE_TOKENS, SUMMARY_EXCERPT_LENGTH } from "../constants";
+
+/**
+ * AI PROVIDER ADAPTERS
+ *
+ * Thin transport layer between the cleaning pipeline (geminiService) and the
+ * individual AI APIs. Gemini is accessed via the official SDK, all other
+ * providers speak the OpenAI-compatible chat-completions protocol - including
+ * local servers (Ollama, llama.cpp server, LM Studio), so manuscripts never
+ * have to leave the machine.
+ *
+ * Adapters only move text back and forth - prompts, retries, watchdog and
+ * error interpretation stay in geminiService.
+ */
+
+interface ProviderConfig {
+    name: string;            // Display name for UI and error messages
+    envKey: string;          // Name of the .env variable holding the API key
+    baseUrl?: string;        // Only for OpenAI-compatible providers
+    apiKeyOptional?: boolean; // Local servers usually run without authentication
+}
+
+export const PROVIDER_CONFIGS: Record<AiProvider, ProviderConfig> = {
+    gemini: {
+        name: "Google Gemini",
+        envKey: "VITE_GEMINI_API_KEY",
+    },
+    openai: {
+        name: "OpenAI",
+        envKey: "VITE_OPENAI_API_KEY",
+        baseUrl: "https://api.openai.com/v1",
+    },
+    qwen: {
+        name: "Qwen",
+        envKey: "VITE_QWEN_API_KEY",
+        baseUrl: "https://dashscope-intl.aliyuncs.com/compatible-mode/v1",
+    },
+    grok: {
+        name: "Grok",
+        envKey: "VITE_GROK_API_KEY",
+        baseUrl: "https://api.x.ai/v1",
+    },
+    deepseek: {
+        name: "DeepSeek",
+        envKey: "VITE_DEEPSEEK_API_KEY",
+        baseUrl: "https://api.deepseek.com/v1",
+    },
+    local: {
+        name: "Lokales LLM",
+        envKey: "VITE_LOCAL_LLM_API_KEY",
+        baseUrl: "http://localhost:11434/v1", // Ollama default
+        apiKeyOptional: true,
+    },
+};
+
+/**
+ * MODEL CATALOGUE
+ * Available models per provider. The first entry is the default.
+ * Prices in USD per 1M tokens (list prices, as of 2025 - only used for estimates).
+ * The local entry describes a typical small model; its id is replaced by the user's setting.
+ */
+export const MODEL_CATALOGUE: Record<AiProvider, ModelInfo[]> = {
+    gemini: [
+        { id: "gemini-2.5-flash", name: "Gemini 2.5 Flash (Schnell & Günstig)", contextWindow: 1048576, maxOutputTokens: 65536, inputPricePer1M: 0.30, outputPricePer1M: 2.50 },
+        { id: "gemini-2.5-flash-lite", name: "Gemini 2.5 Flash-Lite (Sehr günstig)", contextWindow: 1048576, maxOutputTokens: 65536, inputPricePer1M: 0.10, outputPricePer1M: 0.40 },
+        { id: "gemini-2.5-pro", name: "Gemini 2.5 Pro (Präzise)", contextWindow: 1048576, maxOutputTokens: 65536, inputPricePer1M: 1.25, outputPricePer1M: 10.00 },
+    ],
+    openai: [
+        { id: "gpt-4o", name: "GPT-4o (Teuer & Präzise)", contextWindow: 128000, maxOutputTokens: 16384, inputPricePer1M: 2.50, outputPricePer1M: 10.00 },
+        { id: "gpt-4o-mini", name: "GPT-4o mini (Günstig)", contextWindow: 128000, maxOutputTokens: 16384, inputPricePer1M: 0.15, outputPricePer1M: 0.60 },
+        { id: "gpt-4.1", name: "GPT-4.1", contextWindow: 1047576, maxOutputTokens: 32768, inputPricePer1M: 2.00, outputPricePer1M: 8.00 },
+        { id: "gpt-4.1-mini", name: "GPT-4.1 mini", contextWindow: 1047576, maxOutputTokens: 32768, inputPricePer1M: 0.40, outputPricePer1M: 1.60 },
+    ],
+    qwen: [
+        { id: "qwen2.5-72b-instruct", name: "Qwen 2.5 72B (Open Source)", contextWindow: 131072, maxOutputTokens: 8192, inputPricePer1M: 1.40, outputPricePer1M: 5.60 },
+        { id: "qwen-plus", name: "Qwen Plus", contextWindow: 131072, maxOutputTokens: 8192, inputPricePer1M: 0.40, outputPricePer1M: 1.20 },
+        { id: "qwen-max", name: "Qwen Max", contextWindow: 32768, maxOutputTokens: 8192, inputPricePer1M: 1.60, outputPricePer1M: 6.40 },
+    ],
+    grok: [
+        { id: "grok-beta", name: "Grok Beta (X.AI)", contextWindow: 131072, maxOutputTokens: 8192, inputPricePer1M: 5.00, outputPricePer1M: 15.00 },
+        { id: "grok-3", name: "Grok 3", contextWindow: 131072, maxOutputTokens: 8192, inputPricePer1M: 3.00, outputPricePer1M: 15.00 },
+        { id: "grok-3-mini", name: "Grok 3 mini (Günstig)", contextWindow: 131072, maxOutputTokens: 8192, inputPricePer1M: 0.30, outputPricePer1M: 0.50 },
+    ],
+    deepseek: [
+        { id: "deepseek-chat", name: "DeepSeek V3", contextWindow: 65536, maxOutputTokens: 8192, inputPricePer1M: 0.27, outputPricePer1M: 1.10 },
+    ],
+    local: [
+        { id: "llama3.1:8b", name: "Lokales Modell", contextWindow: 4096, maxOutputTokens: 2048, inputPricePer1M: 0, outputPricePer1M: 0 },
+    ],
+};
+
+/**
+ * Returns the catalogue entry for the chosen model (falls back to the provider's default).
+ * For the local provider the entry carries the model name from the user's settings.
+ */
+export function getModelInfo(provider: AiProvider, modelId?: string, localLlm?: LocalLlmSettings): ModelInfo {
+    const models = MODEL_CATALOGUE[provider] ?? MODEL_CATALOGUE.gemini;
+    if (provider === 'local') {
+        const localModel = localLlm?.model || DEFAULT_LOCAL_LLM_SETTINGS.model;
+        return {
+            ...models[0],
+            id: localModel,
+            name: localModel,
+            contextWindow: localLlm?.contextWindow || models[0].contextWindow,
+            maxOutputTokens: localLlm?.maxOutputTokens || models[0].maxOutputTokens,
+        };
+    }
+    return models.find(model => model.id === modelId) ?? models[0];
+}
+
+/**
+ * Input tokens per chunk that fit the model: the cleaned chunk has about as many tokens as the
+ * input, so it must fit into the output limit, and prompt + input + output must fit into the
+ * context window. promptTokens is everything sent besides the chunk (estimatePromptOverheadTokens).
+ * The runtime of a chunk is bounded separately by CHUNK_SIZE in characters.
+ */
+export function getChunkTokenLimit(model: ModelInfo, promptTokens: number): number {
+    const byOutput = model.maxOutputTokens * 0.8;
+    const byContext = (model.contextWindow - promptTokens) / 2;
+    return Math.max(MIN_CHUNK_TOKENS, Math.floor(Math.min(byOutput, byContext)));
+}
+
+/**
+ * Length of the original/cleaned excerpts for the summary call - both have to fit into the context window.
+ */
+export function getSummaryExcerptLength(model: ModelInfo): number {
+    const maxChars = Math.floor(((model.contextWindow - PROMPT_RESERVE_TOKENS) / 2) * CHARS_PER_TOKEN);
+    return Math.max(500, Math.min(SUMMARY_EXCERPT_LENGTH, maxChars));
+}
+
+/**
+ * Estimated cost in USD for the given token counts.
+ */
+export function estimateCost(model: ModelInfo, promptTokens: number, outputTokens: number): number {
+    return (promptTokens / 1_000_000) * model.inputPricePer1M + (outputTokens / 1_000_000) * model.outputPricePer1M;
+}
+
+/**
+ * Default settings for the local provider. Can be preset via .env
+ * (VITE_LOCAL_LLM_URL, VITE_LOCAL_LLM_MODEL) and changed in the configuration view.
+ */
+export const DEFAULT_LOCAL_LLM_SETTINGS: LocalLlmSettings = {
+    baseUrl: import.meta.env.VITE_LOCAL_LLM_URL || PROVIDER_CONFIGS.local.baseUrl!,
+    model: import.meta.env.VITE_LOCAL_LLM_MODEL || MODEL_CATALOGUE.local[0].id,
+    timeoutSeconds: 600, // CPU inference of a 5000 char chunk can take several minutes
+    contextWindow: MODEL_CATALOGUE.local[0].contextWindow,
+    maxOutputTokens: MODEL_CATALOGUE.local[0].maxOutputTokens,
+};
+
+/**
+ * Reads the API key for a provider from the Vite environment.
+ * Static property access is required so Vite can inline the values at build time.
+ */
+export function getProviderApiKey(provider: AiProvider): string | undefined {
+    switch (provider) {
+        case 'gemini': return import.meta.env.VITE_GEMINI_API_KEY;
+        case 'openai': return import.meta.env.VITE_OPENAI_API_KEY;
+        case 'qwen': return import.meta.env.VITE_QWEN_API_KEY;
+        case 'grok': return import.meta.env.VITE_GROK_API_KEY;
+        case 'deepseek': return import.meta.env.VITE_DEEPSEEK_API_KEY;
+        case 'local': return import.meta.env.VITE_LOCAL_LLM_API_KEY;
+        default: return undefined;
+    }
+}
+
+export function getProviderName(provider: AiProvider): string {
+    return PROVIDER_CONFIGS[provider]?.name ?? provider;
+}
+
+/**
+ * A provider is usable online if its API key is configured (local servers need none).
+ * Otherwise the pipeline falls back to the offline (regex) mode.
+ */
+export function isProviderConfigured(provider: AiProvider): boolean {
+    return !!PROVIDER_CONFIGS[provider]?.apiKeyOptional || !!getProviderApiKey(provider);
+}
+
+/**
+ * True if at least one cloud provider has an API key (controls the Demo/Offline banner).
+ * The local provider is not counted - whether its server runs is only known at request time.
+ */
+export function isAnyProviderConfigured(): boolean {
+    return (Object.keys(PROVIDER_CONFIGS) as AiProvider[])
+        .filter(provider => !PROVIDER_CONFIGS[provider].apiKeyOptional)
+        .some(isProviderConfigured);
+}
+
+export interface AiRequest {
+    systemPrompt?: string;
+    userPrompt: string;
+    temperature?: number;
+    topP?: number;
+    json?: boolean;          // Ask for a JSON answer
+    jsonSchema?: unknown;    // Structured output schema (Gemini only)
+    signal?: AbortSignal;
+}
+
+export interface AiStreamChunk {
+    text: string;
+    usage?: TokenUsage;
+}
+
+export interface AiResponse {
+    text: string;
+    usage?: TokenUsage;
+}
+
+export interface AiProviderAdapter {
+    provider: AiProvider;
+    model: string;
+    /** Opens a streaming request. Resolves once the API accepted the request (HTTP errors reject here). */
+    streamText(request: AiRequest): Promise<AsyncIterable<AiStreamChunk>>;
+    generateText(request: AiRequest): Promise<AiResponse>;
+}
+
+/**
+ * HTTP error of an OpenAI-compatible API. The status code is part of the message
+ * so handleAiError can map it like the Gemini SDK errors.
+ */
+export class AiHttpError extends Error {
+    status: number;
+
+    constructor(status: number, detail: string) {
+        super(`HTTP ${status}: ${detail}`);
+        this.name = 'AiHttpError';
+        this.status = status;
+    }
+}
+
+const GEMINI_SAFETY_SETTINGS = [
+    { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_ONLY_HIGH' },
+    { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_ONLY_HIGH' },
+    { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_ONLY_HIGH' },
+    { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_ONLY_HIGH' },
+];
+
+function createGeminiAdapter(apiKey: string, model: string): AiProviderAdapter {
+    const ai = new GoogleGenAI({ apiKey });
+
+    const buildConfig = (request: AiRequest): any => {
+        const config: any = {};
+        if (request.temperature !== undefined) config.temperature = request.temperature;
+        if (request.topP !== undefined) config.topP = request.topP;
+        if (request.systemPrompt) config.systemInstruction = request.systemPrompt;
+        if (request.json) config.responseMimeType = "application/json";
+        if (request.jsonSchema) config.responseSchema = request.jsonSchema;
+        if (request.signal) config.abortSignal = request.signal;
+        if (!request.json) config.safetySettings = GEMINI_SAFETY_SETTINGS;
+        return config;
+    };
+
+    const toUsage = (metadata: any): TokenUsage | undefined => {
+        if (!metadata) return undefined;
+        return {
+            prompt: metadata.promptTokenCount || 0,
+            output: metadata.candidatesTokenCount || 0
+        };
+    };
+
+    return {
+        provider: 'gemini',
+        model,
+        async streamText(request) {
+            const response = await ai.models.generateContentStream({
+                model,
+                config: buildConfig(request),
+                contents: [{ role: 'user', parts: [{ text: request.userPrompt }] }]
+            });
+            return (async function* () {
+                for await (const chunk of response) {
+                    yield { text: chunk.text || '', usage: toUsage(chunk.usageMetadata) };
+                }
+            })();
+        },
+        async generateText(request) {
+            const response = await ai.models.generateContent({
+                model,
+                config: buildConfig(request),
+                contents: request.userPrompt
+            });
+            return { text: response.text || '', usage: toUsage(response.usageMetadata) };
+        }
+    };
+}
+
+/**
+ * Extracts a readable error detail from an OpenAI-style error body.
+ * Format: { "error": { "message": "...", "type": "...", "code": "..." } }
+ */
+async function readErrorDetail(response: Response): Promise<string> {
+    const body = await response.text().catch(() => '');
+    try {
+        const parsed = JSON.parse(body);
+        const error = parsed?.error;
+        if (error) {
+            return [error.message, error.type, error.code].filter(Boolean).join(' | ');
+        }
+    } catch (e) {
+        // Body is not JSON - use it as is
+    }
+    return body.substring(0, 500) || response.statusText;
+}
+
+function toOpenAiUsage(usage: any): TokenUsage | undefined {
+    if (!usage) return undefined;
+    return {
+        prompt: usage.prompt_tokens || 0,
+        output: usage.completion_tokens || 0
+    };
+}
+
+/**
+ * Reads a Server-Sent-Events body and yields the JSON payload of every "data:" line.
+ */
+async function* readSseEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<any> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder('utf-8');
+    let buffer = '';
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+
+            let newlineIndex: number;
+            while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+                const line = buffer.substring(0, newlineIndex).trim();
+                buffer = buffer.substring(newlineIndex + 1);
+
+                if (!line.startsWith('data:')) continue;
+                const data = line.substring(5).trim();
+                if (data === '[DONE]') return;
+                if (!data) continue;
+
+                try {
+                    yield JSON.parse(data);
+                } catch (e) {
+                    console.warn("Ignoring malformed stream event:", data);
+                }
+            }
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+function createOpenAiCompatibleAdapter(provider: AiProvider, baseUrl: string, apiKey: string | undefined, model: string): AiProviderAdapter {
+    const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+    const buildBody = (request: AiRequest, stream: boolean) => {
+        const messages: { role: string; content: string }[] = [];
+        if (request.systemPrompt) messages.push({ role: 'system', content: request.systemPrompt });
+        messages.push({ role: 'user', content: request.userPrompt });
+
+        const body: any = { model, messages, stream };
+        if (request.temperature !== undefined) body.temperature = request.temperature;
+        if (request.topP !== undefined) body.top_p = request.topP;
+        if (stream) body.stream_options = { include_usage: true };
+        return body;
+    };
+
+    const post = async (request: AiRequest, stream: boolean): Promise<Response> => {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+
+        const response = await fetch(endpoint, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify(buildBody(request, stream)),
+            signal: request.signal
+        });
+
+        if (!response.ok) {
+            throw new AiHttpError(response.status, await readErrorDetail(response));
+        }
+        return response;
+    };
+
+    return {
+        provider,
+        model,
+        async streamText(request) {
+            const response = await post(request, true);
+            if (!response.body) {
+                throw new Error('Leere Antwort (kein Stream) vom KI-Dienst erhalten.');
+            }
+            const body = response.body;
+            return (async function* () {
+                for await (const event of readSseEvents(body)) {
+                    const text = event?.choices?.[0]?.delta?.content || '';
+                    const usage = toOpenAiUsage(event?.usage);
+                    if (text || usage) {
+                        yield { text, usage };
+                    }
+                }
+            })();
+        },
+        async generateText(request) {
+            const response = await post(request, false);
+            const json = await response.json();
+            return {
+                text: json?.choices?.[0]?.message?.content || '',
+                usage: toOpenAiUsage(json?.usage)
+            };
+        }
+    };
+}
+
+/**
+ * Creates the adapter for the given provider and model (see MODEL_CATALOGUE).
+ * Throws if the provider has no API key configured (callers check isProviderConfigured first).
+ * For the local provider, base URL and model come from the user's settings.
+ */
+export function createProviderAdapter(provider: AiProvider, modelId?: string, localLlm?: LocalLlmSettings): AiProviderAdapter {
+    const config = PROVIDER_CONFIGS[provider];
+    const apiKey = getProviderApiKey(provider);
+
+    if (!config || (!apiKey && !config.apiKeyOptional)) {
+        throw new Error(`Kein API-Schlüssel für ${getProviderName(provider)} konfiguriert.`);
+    }
+
+    const model = getModelInfo(provider, modelId, localLlm).id;
+
+    if (provider === 'gemini') {
+        return createGeminiAdapter(apiKey!, model);
+    }
+
+    if (provider === 'local') {
+        const baseUrl = localLlm?.baseUrl || DEFAULT_LOCAL_LLM_SETTINGS.baseUrl;
+        return createOpenAiCompatibleAdapter(provider, baseUrl, apiKey, model);
+    }
+
+    return createOpenAiCompatibleAdapter(provider, config.baseUrl!, apiKey, model);
+}
+
+/**
+ * Lists the models installed on a local OpenAI-compatible server (GET /models).
+ * Ollama, llama.cpp server and LM Studio all answer with { data: [{ id }] }.
+ */
+export async function listLocalModels(baseUrl: string, signal?: AbortSignal): Promise<string[]> {
+    const apiKey = getProviderApiKey('local');
+    const headers: Record<string, string> = {};
+    if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/models`, { headers, signal });
+    if (!response.ok) {
+        throw new AiHttpError(response.status, await readErrorDetail(response));
+    }
+    const json = await response.json();
+    const models: unknown[] = Array.isArray(json?.data) ? json.data : [];
+    return models
+        .map((model: any) => model?.id)
+        .filter((id): id is string => typeof id === 'string' && id.length > 0);
+}
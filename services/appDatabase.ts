@@ -0,0 +1,64 @@
+/**
+ * APP DATABASE (IndexedDB)
+ *
+ * Small promise wrapper around the browser's IndexedDB for data that is too
+ * large for localStorage (chunk cache, resumable jobs). All object stores are created here,
+ * so schema upgrades live in one place.
+ */
+
+const DB_NAME = 'text-aufbereiter';
+const DB_VERSION = 2; // v2: jobs store
+
+export const CHUNK_CACHE_STORE = 'chunkCache';
+export const JOBS_STORE = 'jobs';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB wird von diesem Browser nicht unterstützt.'));
+            return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(CHUNK_CACHE_STORE)) {
+                db.createObjectStore(CHUNK_CACHE_STORE, { keyPath: 'key' });
+            }
+            if (!db.objectStoreNames.contains(JOBS_STORE)) {
+                db.createObjectStore(JOBS_STORE, { keyPath: 'id' });
+            }
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            dbPromise = null; // Allow a later retry
+            reject(request.error || new Error('IndexedDB konnte nicht geöffnet werden.'));
+        };
+    });
+
+    return dbPromise;
+}
+
+/**
+ * Runs a single request against an object store and resolves with its result.
+ */
+export async function runStoreRequest<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    createRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(storeName, mode);
+        const request = createRequest(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error || request.error);
+        transaction.onabort = () => reject(transaction.error || new Error('IndexedDB-Transaktion abgebrochen.'));
+    });
+}
@@ -0,0 +1,59 @@
+import { AiProvider, AuditLog } from '../types';
+import { PROVIDER_CONFIGS, getProviderApiKey } from './aiProviders';
+
+/**
+ * AUDIT LOG SERVICE
+ *
+ * Opt-in record of what was sent to the AI for every chunk and what came back
+ * (system/user prompt, raw streamed answer, cleaned answer, retries, fallback
+ * reason, timing). The log stays in memory and is downloaded from ResultView
+ * as a JSON bundle - API keys are redacted before export.
+ */
+
+const AUDIT_FORMAT = 'text-aufbereiter-audit';
+const AUDIT_FORMAT_VERSION = 1;
+const REDACTED = '[REDACTED]';
+
+// Common key formats, in case a key shows up that is not configured here (e.g. pasted into a prompt)
+const SECRET_PATTERNS: RegExp[] = [
+    /AIza[0-9A-Za-z_-]{35}/g,               // Google / Gemini
+    /\bsk-[A-Za-z0-9_-]{16,}/g,             // OpenAI, DeepSeek, Qwen (DashScope)
+    /\bxai-[A-Za-z0-9_-]{16,}/g,            // Grok
+    /\bBearer\s+[A-Za-z0-9._~+/-]{16,}=*/g, // Authorization headers in error messages
+];
+
+// Object properties that never leave the browser, whatever their value
+const SECRET_FIELD_REGEX = /^(api[-_]?key|authorization|secret|password)$/i;
+
+/**
+ * Replaces the configured API keys and anything that looks like a key.
+ */
+export function redactSecrets(text: string): string {
+    let redacted = text;
+    for (const provider of Object.keys(PROVIDER_CONFIGS) as AiProvider[]) {
+        const apiKey = getProviderApiKey(provider);
+        if (apiKey && apiKey.length >= 8) {
+            redacted = redacted.split(apiKey).join(REDACTED);
+        }
+    }
+    return SECRET_PATTERNS.reduce((result, pattern) => result.replace(pattern, REDACTED), redacted);
+}
+
+/**
+ * Serializes the audit log as a redacted JSON bundle.
+ */
+export function createAuditBundle(auditLog: AuditLog, fileName: string): string {
+    const bundle = {
+        format: AUDIT_FORMAT,
+        version: AUDIT_FORMAT_VERSION,
+        createdAt: new Date().toISOString(),
+        fileName,
+        startedAt: new Date(auditLog.startedAt).toISOString(),
+        provider: auditLog.options.aiProvider,
+        model: auditLog.options.model,
+        options: auditLog.options,
+        chunks: auditLog.records,
+    };
+    const json = JSON.stringify(bundle, (key, value) => SECRET_FIELD_REGEX.test(key) ? REDACTED : value, 2);
+    return redactSecrets(json);
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { getChunkCacheKey } from './chunkCache';
+import { CleaningOptions } from '../types';
+
+const options = (overrides: Partial<CleaningOptions> = {}): CleaningOptions => ({
+    chapterStyle: 'keep',
+    listStyle: 'keep',
+    hyphenationStyle: 'join',
+    aiProvider: 'local',
+    localLlm: { baseUrl: 'http://localhost:11434/v1', model: 'llama3.1:8b', timeoutSeconds: 600 },
+    ...overrides,
+});
+
+describe('getChunkCacheKey', () => {
+    it('separates local servers serving the same model tag', async () => {
+        const key = await getChunkCacheKey('Text.', options());
+        const otherServer = await getChunkCacheKey('Text.', options({ localLlm: { baseUrl: 'http://gpu-box:11434/v1', model: 'llama3.1:8b', timeoutSeconds: 600 } }));
+
+        expect(otherServer).not.toBe(key);
+    });
+
+    it('ignores options that do not change the chunk result', async () => {
+        const key = await getChunkCacheKey('Text.', options());
+        const otherTimeout = await getChunkCacheKey('Text.', options({ localLlm: { baseUrl: 'http://localhost:11434/v1', model: 'llama3.1:8b', timeoutSeconds: 60 } }));
+
+        expect(otherTimeout).toBe(key);
+    });
+});
@@ -0,0 +1,91 @@
+import { AppliedEdit, ChunkContext, ChunkWarning, CleaningOptions, InvariantViolation, PiiRedactionEntry, TokenUsage } from '../types';
+import { CHUNK_CACHE_STORE, runStoreRequest } from './appDatabase';
+import { DEFAULT_LOCAL_LLM_SETTINGS, getModelInfo } from './aiProviders';
+import { isPiiRedactionActive } from './piiRedactor';
+import { sha256Hex } from './utils';
+
+/**
+ * CHUNK CACHE SERVICE
+ *
+ * Stores the cleaned output of every AI-processed chunk in IndexedDB.
+ * The key is a SHA-256 hash of the chunk text, provider, model (local: server) and all options
+ * that influence the chunk result - re-running a book after changing an
+ * unrelated option (e.g. pause settings) only sends the changed chunks.
+ *
+ * Cache errors are never fatal: the pipeline simply processes the chunk again.
+ */
+
+// Bump when prompts or post-processing change, so old results are not reused
+const CACHE_VERSION = 4; // v2: context overlap, v3: prompt templates, v4: payload markers / injection guard
+
+export interface CachedChunk {
+    key: string;
+    text: string;
+    usage: TokenUsage;                 // Tokens the original AI call used (= tokens saved per hit)
+    warnings: ChunkWarning[];
+    violations: InvariantViolation[];
+    edits?: AppliedEdit[];             // Edit operations (outputMode 'edits' only)
+    redactions?: PiiRedactionEntry[];  // Pseudonymized personal data (PII redaction only)
+    createdAt: number;
+}
+
+/**
+ * Options that change the result of a single chunk.
+ * Not included: pauseConfig (applied after all chunks), local timeout, etc.
+ */
+function getRelevantOptions(options: CleaningOptions) {
+    return {
+        provider: options.aiProvider,
+        model: getModelInfo(options.aiProvider, options.model, options.localLlm).id,
+        // Local servers may serve the same model tag in different quantizations (undefined: not in the key)
+        localServer: options.aiProvider === 'local' ? options.localLlm?.baseUrl || DEFAULT_LOCAL_LLM_SETTINGS.baseUrl : undefined,
+        chapterStyle: options.chapterStyle,
+        listStyle: options.listStyle,
+        hyphenationStyle: options.hyphenationStyle,
+        removeUrls: !!options.removeUrls,
+        removeEmails: !!options.removeEmails,
+        removeTableOfContents: !!options.removeTableOfContents,
+        removeReferences: !!options.removeReferences,
+        correctTypography: !!options.correctTypography,
+        applyPhoneticCorrections: options.applyPhoneticCorrections !== false,
+        customReplacements: options.customReplacements || [],
+        customInstruction: options.customInstruction || '',
+        processingMode: options.processingMode || 'standard',
+        driftThreshold: options.driftThreshold,
+        outputMode: options.outputMode || 'fulltext',
+        piiRedaction: isPiiRedactionActive(options) ? options.piiRedaction!.names : null,
+        glossary: options.glossary || [],
+        promptTemplate: options.promptTemplate?.mode === (options.processingMode || 'standard') ? options.promptTemplate.text : '',
+    };
+}
+
+// The context is part of the key - it influences how the AI treats the chunk edges
+export async function getChunkCacheKey(chunk: string, options: CleaningOptions, context?: ChunkContext): Promise<string> {
+    return sha256Hex(JSON.stringify({ v: CACHE_VERSION, options: getRelevantOptions(options), chunk, context }));
+}
+
+export async function getCachedChunk(key: string): Promise<CachedChunk | undefined> {
+    try {
+        return await runStoreRequest<CachedChunk | undefined>(CHUNK_CACHE_STORE, 'readonly', store => store.get(key));
+    } catch (e) {
+        console.warn("Chunk cache read failed", e);
+        return undefined;
+    }
+}
+
+export async function putCachedChunk(entry: CachedChunk): Promise<void> {
+    try {
+        await runStoreRequest(CHUNK_CACHE_STORE, 'readwrite', store => store.put(entry));
+    } catch (e) {
+        // Quota exceeded etc. - the result is still used, just not cached
+        console.warn("Chunk cache write failed", e);
+    }
+}
+
+export async function countCachedChunks(): Promise<number> {
+    return runStoreRequest<number>(CHUNK_CACHE_STORE, 'readonly', store => store.count());
+}
+
+export async function purgeChunkCache(): Promise<void> {
+    await runStoreRequest(CHUNK_CACHE_STORE, 'readwrite', store => store.clear());
+}
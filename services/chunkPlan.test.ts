@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { planChunks } from './chunkPlan';
+import { CleaningOptions } from '../types';
+
+const options: CleaningOptions = {
+    chapterStyle: 'keep',
+    listStyle: 'keep',
+    hyphenationStyle: 'keep',
+    aiProvider: 'local',
+};
+
+const poem = '{{keep}}\nIm Atem\nwohnt die Stille\nund wartet\n{{/keep}}';
+const text = `Ein Absatz vor dem Gedicht.\n\n${poem}\n\nEin Absatz danach.`;
+
+describe('planChunks', () => {
+    it('splits with the keep regions replaced by placeholders', () => {
+        const plan = planChunks(text, options);
+
+        expect(plan.keepRegions).toEqual([poem]);
+        expect(plan.chunks.join('')).toContain('[[PROTECTED_KEEP_0]]');
+        expect(plan.chunks.join('')).not.toContain('wohnt die Stille');
+        expect(plan.chunkTokens).toBeGreaterThan(0);
+    });
+
+    it('keeps the limits of a resumed job', () => {
+        const plan = planChunks(text, options, { chunkSize: 30, chunkTokens: undefined });
+
+        expect(plan.chunkSize).toBe(30);
+        expect(plan.chunkTokens).toBeUndefined();
+        expect(plan.chunks.length).toBeGreaterThan(1);
+    });
+});
@@ -0,0 +1,36 @@
+import { CleaningJob, CleaningOptions } from '../types';
+import { CHUNK_SIZE } from '../constants';
+import { smartSplitText } from './utils';
+import { protectKeepRegions } from './keepRegions';
+import { getChunkTokenLimit, getModelInfo } from './aiProviders';
+import { estimatePromptOverheadTokens } from './geminiService';
+
+/**
+ * CHUNK PLAN SERVICE
+ *
+ * The one place that decides how a text is split for a run: {{keep}} regions are
+ * replaced by placeholders first (keepRegions.ts), then smartSplitText cuts by
+ * CHUNK_SIZE characters and by the token limit of the chosen model.
+ * The pipeline and the estimates of the configuration view both use it, so chunk
+ * count, hybrid selection and cost estimate match what the run actually sends.
+ */
+
+export interface ChunkPlan {
+    chunks: string[];
+    keepRegions: string[];   // Restored at the very end (restoreKeepRegions)
+    chunkSize: number;
+    chunkTokens?: number;
+}
+
+/**
+ * Splits the source text for a run. A resumed job passes its saved limits,
+ * so the text splits into the same chunks as before.
+ */
+export function planChunks(sourceText: string, options: CleaningOptions, savedLimits?: Pick<CleaningJob, 'chunkSize' | 'chunkTokens'>): ChunkPlan {
+    const chunkSize = savedLimits ? savedLimits.chunkSize : CHUNK_SIZE;
+    const chunkTokens = savedLimits
+        ? savedLimits.chunkTokens
+        : getChunkTokenLimit(getModelInfo(options.aiProvider, options.model, options.localLlm), estimatePromptOverheadTokens(options));
+    const { text, regions } = protectKeepRegions(sourceText);
+    return { chunks: smartSplitText(text, chunkSize, chunkTokens), keepRegions: regions, chunkSize, chunkTokens };
+}
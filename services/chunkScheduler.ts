@@ -0,0 +1,103 @@
+/**
+ * CHUNK SCHEDULER SERVICE
+ *
+ * Runs the chunk workers with bounded concurrency and hands the results back
+ * strictly in chunk order. A finished chunk waits in a buffer until all chunks
+ * before it are done - the accumulated text and the saved job always form a
+ * contiguous prefix of the book (required for resume and partial results).
+ *
+ * The concurrency is read before every start, so the rate limiter can lower
+ * it while the run is in progress.
+ */
+
+export interface ChunkSchedulerOptions<T> {
+    startIndex: number;
+    endIndex: number;                          // Exclusive
+    getConcurrency: () => number;
+    signal: AbortSignal;
+    worker: (index: number) => Promise<T>;
+    onOrderedResult: (index: number, result: T) => Promise<void> | void;
+}
+
+export async function runChunksInOrder<T>(options: ChunkSchedulerOptions<T>): Promise<void> {
+    const { startIndex, endIndex, getConcurrency, signal, worker, onOrderedResult } = options;
+
+    const running = new Map<number, Promise<void>>();
+    const finished = new Map<number, T>();
+    let nextToStart = startIndex;
+    let nextToEmit = startIndex;
+    let failure: { error: unknown } | null = null;
+
+    const start = (index: number) => {
+        const task = worker(index)
+            .then(result => { finished.set(index, result); })
+            .catch(error => { if (!failure) failure = { error }; })
+            .finally(() => { running.delete(index); });
+        running.set(index, task);
+    };
+
+    while (nextToEmit < endIndex) {
+        if (signal.aborted) return;
+        if (failure) throw (failure as { error: unknown }).error;
+
+        while (nextToStart < endIndex && running.size < Math.max(1, getConcurrency())) {
+            start(nextToStart++);
+        }
+
+        if (running.size > 0 && !finished.has(nextToEmit)) {
+            await Promise.race(running.values());
+        }
+        if (failure) throw (failure as { error: unknown }).error;
+
+        // Emit every chunk that is now contiguous with the already emitted ones
+        while (finished.has(nextToEmit)) {
+            const result = finished.get(nextToEmit) as T;
+            finished.delete(nextToEmit);
+            if (signal.aborted) return;
+            await onOrderedResult(nextToEmit, result);
+            nextToEmit++;
+        }
+    }
+}
+
+/**
+ * Lets workers wait before starting new requests (e.g. while the budget
+ * confirmation is open). Requests already running are not interrupted.
+ */
+export interface PauseGate {
+    pause(): void;
+    resume(): void;
+    isPaused(): boolean;
+    wait(signal: AbortSignal): Promise<void>;
+}
+
+export function createPauseGate(): PauseGate {
+    let waiting: (() => void)[] = [];
+    let paused = false;
+
+    return {
+        pause() {
+            paused = true;
+        },
+        resume() {
+            paused = false;
+            const release = waiting;
+            waiting = [];
+            release.forEach(resolve => resolve());
+        },
+        isPaused() {
+            return paused;
+        },
+        wait(signal) {
+            if (!paused) return Promise.resolve();
+            return new Promise((resolve, reject) => {
+                const onAbort = () => reject(new Error('Aborted'));
+                signal.addEventListener('abort', onAbort, { once: true });
+                waiting.push(() => {
+                    signal.removeEventListener('abort', onAbort);
+                    resolve();
+                });
+            });
+        },
+    };
+}
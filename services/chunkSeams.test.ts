@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { stitchChunkOutputs, trimEchoedContext } from './chunkSeams';
+import { CleaningOptions } from '../types';
+
+const options = (overrides: Partial<CleaningOptions> = {}): CleaningOptions => ({
+    chapterStyle: 'keep',
+    listStyle: 'keep',
+    hyphenationStyle: 'join',
+    aiProvider: 'gemini',
+    ...overrides,
+});
+
+describe('trimEchoedContext', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    const context = {
+        before: 'Der Abend war still, und wir saßen lange am offenen Fenster.',
+        after: 'Am nächsten Morgen brachen wir früh zum See auf.',
+    };
+    const chunk = 'Niemand sprach ein Wort. Die Kerzen brannten langsam herunter.';
+
+    it('removes echoed context at both edges', () => {
+        const output = `wir saßen lange am offenen Fenster. ${chunk} Am nächsten Morgen brachen wir`;
+
+        expect(trimEchoedContext(output, chunk, context)).toBe(chunk);
+    });
+
+    it('keeps short overlaps', () => {
+        const output = `am offenen Fenster. ${chunk}`;
+
+        expect(trimEchoedContext(output, chunk, context)).toBe(output);
+    });
+
+    it('keeps a phrase the chunk itself repeats from the context', () => {
+        const meditation = {
+            before: 'Spüre den Boden unter dir. Atme tief ein und aus.',
+            after: 'Atme tief ein und aus. Öffne langsam die Augen.',
+        };
+        const repeating = 'Atme tief ein und aus. Lass die Schultern sinken. Atme tief ein und aus.';
+
+        expect(trimEchoedContext(repeating, repeating, meditation)).toBe(repeating);
+    });
+
+    it('still removes a second copy of a repeated phrase', () => {
+        const meditation = { before: 'Spüre den Boden unter dir. Atme tief ein und aus.', after: '' };
+        const repeating = 'Atme tief ein und aus. Lass die Schultern sinken.';
+
+        expect(trimEchoedContext(`Atme tief ein und aus. ${repeating}`, repeating, meditation)).toBe(repeating);
+    });
+});
+
+describe('stitchChunkOutputs', () => {
+    it('joins a word hyphenated across the seam', () => {
+        const raw = ['Wir beginnen mit der Medi-', 'tation am Morgen.'];
+
+        expect(stitchChunkOutputs(raw, raw, options())).toBe('Wir beginnen mit der Meditation am Morgen.');
+        expect(stitchChunkOutputs(['Die Nord-', 'und Südseite.'], ['Die Nord-', 'und Südseite.'], options())).toBe('Die Nord- und Südseite.');
+    });
+
+    it('keeps a paragraph break that was cut', () => {
+        const raw = ['Erster Absatz.\n\n', 'Zweiter Absatz.'];
+
+        expect(stitchChunkOutputs(['Erster Absatz.', 'Zweiter Absatz.'], raw, options())).toBe('Erster Absatz.\n\nZweiter Absatz.');
+    });
+
+    it('continues a sentence cut inside a paragraph with a space', () => {
+        const raw = ['Der Atem fließt ruhig', 'und gleichmäßig.'];
+
+        expect(stitchChunkOutputs(raw, raw, options())).toBe('Der Atem fließt ruhig und gleichmäßig.');
+    });
+
+    it('keeps the line break of a meditation script at the seam', () => {
+        const raw = ['Atme tief ein.\n', '[PAUSE 10s]\nAtme langsam aus.'];
+        const outputs = ['Atme tief ein.', '[PAUSE 10s]\nAtme langsam aus.'];
+
+        expect(stitchChunkOutputs(outputs, raw, options({ processingMode: 'meditation' }))).toBe('Atme tief ein.\n[PAUSE 10s]\nAtme langsam aus.');
+        expect(stitchChunkOutputs(outputs, raw, options())).toBe('Atme tief ein. [PAUSE 10s]\nAtme langsam aus.');
+    });
+});
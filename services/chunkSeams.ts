@@ -0,0 +1,144 @@
+import { ChunkContext, CleaningOptions } from '../types';
+import { CONTEXT_OVERLAP_LENGTH } from '../constants';
+
+/**
+ * CHUNK SEAMS SERVICE
+ *
+ * smartSplitText prefers paragraph and sentence breaks, but its fallbacks
+ * (single newline, space) cut through sentences and hyphenated words.
+ * To let the AI understand these cuts, every request carries a read-only
+ * context window: the tail of the previous chunk and the head of the next one.
+ * The model returns only the core region; the seams are repaired here:
+ * - Context the model echoed anyway is trimmed from the output (unless the chunk
+ *   itself repeats those words - meditation scripts and poems often do)
+ * - "Medi-" + "tation" across a seam is joined (if hyphenation is joined)
+ * - A sentence running across a seam is joined with a space instead of a line break
+ */
+
+// Echoes shorter than this are too likely to be a coincidence
+const MIN_ECHO_WORDS = 4;
+const MAX_ECHO_WORDS = 80;
+
+/**
+ * Cuts a context excerpt at a word boundary, so the model never sees half words at its outer edge.
+ */
+function cutAtWordBoundary(text: string, fromEnd: boolean): string {
+    if (fromEnd) {
+        const excerpt = text.slice(-CONTEXT_OVERLAP_LENGTH);
+        const firstSpace = excerpt.search(/\s/);
+        return (excerpt.length < text.length && firstSpace !== -1 ? excerpt.slice(firstSpace) : excerpt).trim();
+    }
+    const excerpt = text.slice(0, CONTEXT_OVERLAP_LENGTH);
+    const lastSpace = Math.max(excerpt.lastIndexOf(' '), excerpt.lastIndexOf('\n'));
+    return (excerpt.length < text.length && lastSpace !== -1 ? excerpt.slice(0, lastSpace) : excerpt).trim();
+}
+
+/**
+ * Read-only context for chunk i: tail of the previous and head of the next chunk.
+ */
+export function getChunkContext(chunks: string[], index: number): ChunkContext {
+    return {
+        before: index > 0 ? cutAtWordBoundary(chunks[index - 1], true) : '',
+        after: index < chunks.length - 1 ? cutAtWordBoundary(chunks[index + 1], false) : '',
+    };
+}
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+const toWordKeys = (text: string) => text.split(/\s+/).map(normalizeWord).filter(Boolean);
+
+const matchesAt = (keys: string[], words: string[], offset: number) =>
+    offset >= 0 && keys.every((key, j) => key === words[offset + j]);
+
+/**
+ * Removes context the model copied into its answer despite the instruction.
+ * Compared on word level, because the echoed context is usually cleaned as well.
+ * chunk is the text that was sent: if it starts (ends) with the same words as the
+ * context, those words are its own and only a second copy counts as an echo.
+ */
+export function trimEchoedContext(output: string, chunk: string, context?: ChunkContext): string {
+    if (!context || (!context.before && !context.after)) return output;
+
+    const outputWords = [...output.matchAll(/\S+/g)];
+    const outputKeys = outputWords.map(m => normalizeWord(m[0]));
+    const chunkKeys = toWordKeys(chunk);
+    let start = 0;
+    let end = output.length;
+
+    // Echo of the previous chunk: the output starts with the last words of the context
+    const beforeKeys = toWordKeys(context.before);
+    for (let k = Math.min(beforeKeys.length, outputKeys.length - 1, MAX_ECHO_WORDS); k >= MIN_ECHO_WORDS; k--) {
+        const tail = beforeKeys.slice(-k);
+        if (matchesAt(tail, outputKeys, 0)) {
+            if (!matchesAt(tail, chunkKeys, 0) || matchesAt(tail, outputKeys, k)) {
+                const lastEcho = outputWords[k - 1];
+                start = lastEcho.index! + lastEcho[0].length;
+            }
+            break;
+        }
+    }
+
+    // Echo of the next chunk: the output ends with the first words of the context
+    const afterKeys = toWordKeys(context.after);
+    for (let k = Math.min(afterKeys.length, outputKeys.length - 1, MAX_ECHO_WORDS); k >= MIN_ECHO_WORDS; k--) {
+        const head = afterKeys.slice(0, k);
+        const offset = outputKeys.length - k;
+        if (matchesAt(head, outputKeys, offset)) {
+            if (!matchesAt(head, chunkKeys, chunkKeys.length - k) || matchesAt(head, outputKeys, offset - k)) {
+                const firstEcho = outputWords[offset];
+                if (firstEcho.index! >= start) {
+                    end = firstEcho.index!;
+                }
+            }
+            break;
+        }
+    }
+
+    if (start === 0 && end === output.length) return output;
+    console.warn("Chunk seams: removed context echoed by the AI.");
+    return output.substring(start, end).trim();
+}
+
+/**
+ * Joins two neighbouring chunk outputs.
+ * rawLeft/rawRight are the original chunks - they tell whether the cut was a paragraph break.
+ */
+function joinSeam(left: string, right: string, rawLeft: string, rawRight: string, options: CleaningOptions): string {
+    const leftText = left.replace(/\s+$/, '');
+    const rightText = right.replace(/^\s+/, '');
+    if (!leftText) return rightText;
+    if (!rightText) return leftText;
+
+    // smartSplitText keeps "\n\n" with the left chunk - a real paragraph break stays one
+    if (/\n[ \t]*\n\s*$/.test(rawLeft) || /^\s*\n[ \t]*\n/.test(rawRight)) {
+        return `${leftText}\n\n${rightText}`;
+    }
+
+    // Meditation scripts are line based (stage directions) - keep a line break where the cut was one
+    if (options.processingMode === 'meditation' && /\n\s*$/.test(rawLeft)) {
+        return `${leftText}\n${rightText}`;
+    }
+
+    const startsLowercase = /^\p{Ll}/u.test(rightText);
+
+    // Hyphenated word across the seam: "Medi-" + "tation" (but not "Nord- und Südseite")
+    if (options.hyphenationStyle === 'join' && /\p{L}-$/u.test(leftText) && startsLowercase && !/^(?:und|oder|bis|sowie|bzw)\b/.test(rightText)) {
+        return leftText.slice(0, -1) + rightText;
+    }
+
+    // Same paragraph: the sentence (or the next one) continues after a space
+    return `${leftText} ${rightText}`;
+}
+
+/**
+ * Stitches the cleaned chunks (in order) into one text.
+ * Works on any prefix of the chunk list (partial results, resumed jobs).
+ */
+export function stitchChunkOutputs(outputs: string[], rawChunks: string[], options: CleaningOptions): string {
+    if (outputs.length === 0) return '';
+    let result = outputs[0];
+    for (let i = 1; i < outputs.length; i++) {
+        result = joinSeam(result, outputs[i], rawChunks[i - 1] || '', rawChunks[i] || '', options);
+    }
+    return result;
+}
@@ -0,0 +1,81 @@
+import { CleaningOptions, CostLedgerEntry, ModelInfo, TokenUsage } from '../types';
+import { EDIT_MODE_OUTPUT_RATIO, COST_LEDGER_MAX_ENTRIES } from '../constants';
+import { estimateCost } from './aiProviders';
+import { estimateTokens } from './tokenEstimator';
+
+/**
+ * COST TRACKER SERVICE
+ *
+ * - Budget: projects the cost of a run (before the start from the chunk lengths,
+ *   during the run from the actual token usage) and tells whether it exceeds the budget.
+ * - Ledger: the cost of every run is stored in localStorage, per file and date,
+ *   and can be viewed from the footer.
+ */
+
+const LEDGER_STORAGE_KEY = 'costLedger';
+
+// Runs recorded after this timestamp belong to the current browser session
+export const SESSION_START = Date.now();
+
+export const usdToCents = (usd: number) => usd * 100;
+
+/**
+ * Estimated cost (USD) of sending the given chunks to the AI.
+ * Output is assumed to be as long as the input (edit mode: a fraction of it).
+ */
+export function estimateChunksCost(chunks: string[], options: CleaningOptions, model: ModelInfo): number {
+    const inputTokens = chunks.reduce((sum, chunk) => sum + estimateTokens(chunk), 0);
+    const outputTokens = options.outputMode === 'edits' ? Math.ceil(inputTokens * EDIT_MODE_OUTPUT_RATIO) : inputTokens;
+    return estimateCost(model, inputTokens, outputTokens);
+}
+
+/**
+ * Projects the total cost of a running job from the cost of the chunks processed so far.
+ */
+export function projectRunCostCents(actualCents: number, processedChunks: number, remainingChunks: number): number {
+    if (processedChunks === 0) return actualCents;
+    return actualCents + (actualCents / processedChunks) * remainingChunks;
+}
+
+export function isOverBudget(budgetCents: number | undefined, ...costsCents: number[]): boolean {
+    return !!budgetCents && budgetCents > 0 && costsCents.some(cost => cost > budgetCents);
+}
+
+export function formatCents(cents: number): string {
+    return cents < 0.01 ? '< 0.01 ¢' : `${cents.toFixed(2)} ¢`;
+}
+
+export function loadCostLedger(): CostLedgerEntry[] {
+    try {
+        const saved = localStorage.getItem(LEDGER_STORAGE_KEY);
+        return saved ? JSON.parse(saved) : [];
+    } catch (e) {
+        console.error("Failed to load cost ledger", e);
+        return [];
+    }
+}
+
+export function addCostLedgerEntry(entry: CostLedgerEntry): void {
+    // Runs without any AI call (offline, fully cached) are not worth an entry
+    if (entry.tokenUsage.prompt + entry.tokenUsage.output === 0) return;
+    try {
+        const entries = [entry, ...loadCostLedger()].slice(0, COST_LEDGER_MAX_ENTRIES);
+        localStorage.setItem(LEDGER_STORAGE_KEY, JSON.stringify(entries));
+    } catch (e) {
+        console.error("Failed to save cost ledger", e);
+    }
+}
+
+export function clearCostLedger(): void {
+    localStorage.removeItem(LEDGER_STORAGE_KEY);
+}
+
+export function sumLedger(entries: CostLedgerEntry[]): { costUsd: number; tokenUsage: TokenUsage } {
+    return entries.reduce((acc, entry) => ({
+        costUsd: acc.costUsd + entry.costUsd,
+        tokenUsage: {
+            prompt: acc.tokenUsage.prompt + entry.tokenUsage.prompt,
+            output: acc.tokenUsage.output + entry.tokenUsage.output,
+        },
+    }), { costUsd: 0, tokenUsage: { prompt: 0, output: 0 } });
+}
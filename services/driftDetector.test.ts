@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { applyExpectedEdits, measureDrift } from './driftDetector';
+import { checkContentInvariants } from './invariantChecker';
+import { CleaningOptions } from '../types';
+
+const options = (overrides: Partial<CleaningOptions> = {}): CleaningOptions => ({
+    chapterStyle: 'keep',
+    listStyle: 'keep',
+    hyphenationStyle: 'keep',
+    aiProvider: 'gemini',
+    ...overrides,
+});
+
+describe('applyExpectedEdits', () => {
+    it('expands abbreviations like the AI pre-pass', () => {
+        expect(applyExpectedEdits('Das gilt z.B. für Kap. 3.', options())).toBe('Das gilt zum Beispiel für Kapitel 3.');
+    });
+
+    it('leaves exempt glossary terms unexpanded and writes preferred spellings', () => {
+        const glossary = [
+            { term: 'Nr. Sieben', exemptFromRules: true },
+            { term: 'Jon', preferred: 'John', exemptFromRules: false },
+        ];
+        expect(applyExpectedEdits('Gestern spielte Nr. Sieben für Jon.', options({ glossary }))).toBe('Gestern spielte Nr. Sieben für John.');
+    });
+});
+
+describe('glossary terms in the AI output checks', () => {
+    const glossary = [
+        { term: 'Nr. Sieben', exemptFromRules: true },
+        { term: 'Jon', preferred: 'John', exemptFromRules: false },
+    ];
+    const input = 'Gestern spielte die Band Nr. Sieben im Park, und Jon stand ganz vorne an der Bühne, weil er jedes Lied der Band auswendig kannte und mitsingen wollte.';
+    const output = 'Gestern spielte die Band Nr. Sieben im Park, und John stand ganz vorne an der Bühne, weil er jedes Lied der Band auswendig kannte und mitsingen wollte.';
+
+    it('are not counted as drift', () => {
+        expect(measureDrift(input, output, options({ glossary })).similarity).toBe(1);
+    });
+
+    it('are not reported as lost names', () => {
+        expect(checkContentInvariants(input, output, options({ glossary }))).toEqual([]);
+    });
+});
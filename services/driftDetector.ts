@@ -0,0 +1,91 @@
+import { CleaningOptions } from '../types';
+import { prepareTextForAi } from './utils';
+import { applyPreferredSpellings } from './glossary';
+
+/**
+ * DRIFT DETECTOR SERVICE
+ *
+ * Checks the AI output of a chunk against its input on word level.
+ * The cleaning task only removes noise and fixes formatting - if the vocabulary
+ * of the output differs strongly from the input, the model has rewritten,
+ * summarized or hallucinated content.
+ *
+ * Expected edits are neutralized before comparing:
+ * - Custom replacements and abbreviation expansion (same pre-pass as cleanTextStream, glossary-aware)
+ * - Preferred spellings of the glossary (the AI is told to write them)
+ * - Hyphenation at line ends ("Medi-\ntation" → "Meditation")
+ * - Numbers (page numbers, reference markers), URLs and e-mail addresses
+ */
+
+// Chunks with fewer words give unstable similarity values and are not checked
+const MIN_WORDS_FOR_CHECK = 20;
+
+export interface DriftResult {
+    similarity: number;   // 0..1 - share of words common to input and output (Dice coefficient)
+    drift: number;        // 1 - similarity
+    inputWords: number;
+    outputWords: number;
+}
+
+/**
+ * Applies the deterministic pre-pass of the AI pipeline to the input,
+ * so that these intended changes are not counted as drift.
+ * Also used by the invariant checker.
+ */
+export function applyExpectedEdits(text: string, options: CleaningOptions): string {
+    return applyPreferredSpellings(prepareTextForAi(text, options), options.glossary);
+}
+
+/**
+ * Splits text into comparable lowercase words.
+ */
+function toWords(text: string): string[] {
+    const normalized = text
+        .replace(/(\p{L})-\s*\n\s*(\p{Ll})/gu, '$1$2')          // Join hyphenation
+        .replace(/(https?:\/\/[^\s]+)|(www\.[^\s]+)/gi, ' ')     // URLs
+        .replace(/[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g, ' ') // E-mails
+        .toLowerCase();
+
+    const words = normalized.match(/[\p{L}\p{N}]+/gu) || [];
+    // Pure numbers are mostly page numbers or reference markers that may be removed
+    return words.filter(word => !/^\d+$/.test(word));
+}
+
+/**
+ * Measures the word-level similarity between input chunk and AI output.
+ * Word order is ignored (multiset comparison) - reordering is rare, vocabulary changes are the signal.
+ */
+export function measureDrift(input: string, output: string, options: CleaningOptions): DriftResult {
+    const inputWords = toWords(applyExpectedEdits(input, options));
+    const outputWords = toWords(output);
+
+    if (inputWords.length === 0 && outputWords.length === 0) {
+        return { similarity: 1, drift: 0, inputWords: 0, outputWords: 0 };
+    }
+
+    const counts = new Map<string, number>();
+    for (const word of inputWords) {
+        counts.set(word, (counts.get(word) || 0) + 1);
+    }
+
+    let common = 0;
+    for (const word of outputWords) {
+        const remaining = counts.get(word) || 0;
+        if (remaining > 0) {
+            common++;
+            counts.set(word, remaining - 1);
+        }
+    }
+
+    const similarity = (2 * common) / (inputWords.length + outputWords.length);
+    return { similarity, drift: 1 - similarity, inputWords: inputWords.length, outputWords: outputWords.length };
+}
+
+/**
+ * True if the drift exceeds the allowed threshold (0..1).
+ * Very short chunks are never flagged.
+ */
+export function isDriftExceeded(result: DriftResult, threshold: number): boolean {
+    if (result.inputWords < MIN_WORDS_FOR_CHECK) return false;
+    return result.drift > threshold;
+}
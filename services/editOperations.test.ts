@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { applyEditOperations } from './editOperations';
+import { CleaningOptions } from '../types';
+
+const options: CleaningOptions = {
+    chapterStyle: 'keep',
+    listStyle: 'keep',
+    hyphenationStyle: 'join',
+    aiProvider: 'gemini',
+};
+
+describe('applyEditOperations joins', () => {
+    it('joins a hyphenated word across a deleted page number', () => {
+        const text = 'Die Medi-\n12\ntation beginnt.';
+        const result = applyEditOperations(text, [{ op: 'delete', fromLine: 2, toLine: 2 }, { op: 'join', line: 1 }], options);
+
+        expect(result.text).toBe('Die Meditation beginnt.');
+    });
+
+    it.each([
+        ['a pause tag line', 'Atme ein.\n[PAUSE 2s]\nAtme aus.', 2],
+        ['the line before a pause tag', 'Atme ein.\n[PAUSE 2s]\nAtme aus.', 1],
+        ['a placeholder line', 'Vorher\n[[PROTECTED_KEEP_0]]\nNachher', 2],
+        ['the line before a placeholder', 'Vorher\n[[PROTECTED_KEEP_0]]\nNachher', 1],
+    ])('rejects joining %s', (_case, text, line) => {
+        const result = applyEditOperations(text, [{ op: 'join', line }], options);
+
+        expect(result.text).toBe(text);
+        expect(result.edits).toEqual([expect.objectContaining({ op: 'join', rejectedReason: 'Geschützter Tag betroffen' })]);
+    });
+});
@@ -0,0 +1,189 @@
+import { AppliedEdit, CleaningOptions, EditOperation } from '../types';
+
+/**
+ * EDIT OPERATIONS SERVICE (outputMode 'edits')
+ *
+ * Instead of returning the whole chunk, the AI returns a JSON list of edit
+ * operations against the numbered lines of the chunk:
+ * - delete:  remove whole lines (page numbers, headers)
+ * - replace: replace a span of one line, anchored by offsets and the expected text
+ * - join:    join a line with the next one (line break inside a sentence)
+ *
+ * The operations are validated and applied locally. Operations that touch
+ * [PAUSE Xs] tags or [[PROTECTED_...]] placeholders, point outside the chunk
+ * or overlap other operations are rejected and logged - every applied change
+ * stays traceable in the result view.
+ */
+
+const PROTECTED_TAG_REGEX = /\[PAUSE\s+\d+(?:\.\d+)?s\]|\[\[PROTECTED_[A-Z_]+_\d+\]\]/gi;
+
+/**
+ * Prefixes every line with its 1-based number ("12| text") for the prompt.
+ */
+export function numberLines(text: string): string {
+    return text.split('\n').map((line, index) => `${index + 1}| ${line}`).join('\n');
+}
+
+const isLineNumber = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+/**
+ * Parses the AI answer ({"edits": [...]} or a bare array).
+ * Throws on invalid JSON, so the watchdog retries the chunk.
+ */
+export function parseEditOperations(response: string): EditOperation[] {
+    const stripped = response.replace(/```(?:json)?/gi, '').trim();
+    const start = stripped.search(/[[{]/);
+    if (start === -1) {
+        throw new Error('Edit mode: AI answer contains no JSON.');
+    }
+
+    const parsed = JSON.parse(stripped.substring(start));
+    const list: unknown[] = Array.isArray(parsed) ? parsed : parsed?.edits;
+    if (!Array.isArray(list)) {
+        throw new Error('Edit mode: AI answer contains no "edits" list.');
+    }
+
+    const operations: EditOperation[] = [];
+    for (const item of list as any[]) {
+        if (item?.op === 'delete' && isLineNumber(item.fromLine)) {
+            operations.push({ op: 'delete', fromLine: item.fromLine, toLine: isLineNumber(item.toLine) ? item.toLine : item.fromLine });
+        } else if (item?.op === 'replace' && isLineNumber(item.line) && typeof item.text === 'string' && typeof item.replacement === 'string') {
+            operations.push({
+                op: 'replace',
+                line: item.line,
+                start: Number.isInteger(item.start) ? item.start : -1,
+                end: Number.isInteger(item.end) ? item.end : -1,
+                text: item.text,
+                replacement: item.replacement,
+            });
+        } else if (item?.op === 'join' && isLineNumber(item.line)) {
+            operations.push({ op: 'join', line: item.line });
+        } else {
+            console.warn('Edit mode: ignoring malformed operation', item);
+        }
+    }
+    return operations;
+}
+
+function containsProtectedTag(text: string): boolean {
+    return (text.match(PROTECTED_TAG_REGEX) || []).length > 0;
+}
+
+/**
+ * Finds the span of a replace operation. The offsets are only trusted if they
+ * point at the expected text - otherwise a unique occurrence of the text is used.
+ */
+function locateSpan(line: string, op: Extract<EditOperation, { op: 'replace' }>): { start: number; end: number } | null {
+    if (op.start >= 0 && op.end >= op.start && line.substring(op.start, op.end) === op.text) {
+        return { start: op.start, end: op.end };
+    }
+    if (!op.text) return null;
+    const index = line.indexOf(op.text);
+    if (index === -1 || index !== line.lastIndexOf(op.text)) return null;
+    return { start: index, end: index + op.text.length };
+}
+
+/**
+ * Validates the operations and applies them to the chunk.
+ * Order: replacements (per line, right to left), then deletions, then joins.
+ */
+export function applyEditOperations(text: string, operations: EditOperation[], options: CleaningOptions): { text: string; edits: AppliedEdit[] } {
+    const lines = text.split('\n');
+    const edits: AppliedEdit[] = [];
+    const reject = (op: EditOperation, line: number, before: string, reason: string) => {
+        edits.push({ op: op.op, line, before, after: before, rejectedReason: reason });
+    };
+
+    // 1. Replacements
+    const spansByLine = new Map<number, { start: number; end: number; replacement: string; op: EditOperation }[]>();
+    for (const op of operations) {
+        if (op.op !== 'replace') continue;
+        if (op.line > lines.length) {
+            reject(op, op.line, op.text, 'Zeile existiert nicht');
+            continue;
+        }
+        const line = lines[op.line - 1];
+        const span = locateSpan(line, op);
+        if (!span) {
+            reject(op, op.line, op.text, 'Text nicht in der Zeile gefunden');
+            continue;
+        }
+        // A tag may neither be changed nor be created by the AI
+        const tagTouched = [...line.matchAll(PROTECTED_TAG_REGEX)].some(m => m.index! < span.end && m.index! + m[0].length > span.start);
+        if (tagTouched || containsProtectedTag(op.replacement)) {
+            reject(op, op.line, op.text, 'Geschützter Tag betroffen');
+            continue;
+        }
+        const spans = spansByLine.get(op.line) || [];
+        if (spans.some(other => other.start < span.end && span.start < other.end)) {
+            reject(op, op.line, op.text, 'Überschneidet eine andere Operation');
+            continue;
+        }
+        spans.push({ ...span, replacement: op.replacement, op });
+        spansByLine.set(op.line, spans);
+    }
+
+    for (const [lineNumber, spans] of spansByLine) {
+        let line = lines[lineNumber - 1];
+        for (const span of [...spans].sort((a, b) => b.start - a.start)) {
+            const before = line.substring(span.start, span.end);
+            line = line.substring(0, span.start) + span.replacement + line.substring(span.end);
+            edits.push({ op: 'replace', line: lineNumber, before, after: span.replacement });
+        }
+        lines[lineNumber - 1] = line;
+    }
+
+    // 2. Deletions
+    const deleted = new Set<number>();
+    for (const op of operations) {
+        if (op.op !== 'delete') continue;
+        const fromLine = Math.min(op.fromLine, op.toLine);
+        const toLine = Math.max(op.fromLine, op.toLine);
+        const before = lines.slice(fromLine - 1, toLine).join('\n');
+        if (toLine > lines.length) {
+            reject(op, fromLine, before, 'Zeile existiert nicht');
+            continue;
+        }
+        if (containsProtectedTag(before)) {
+            reject(op, fromLine, before, 'Geschützter Tag betroffen');
+            continue;
+        }
+        for (let n = fromLine; n <= toLine; n++) deleted.add(n);
+        edits.push({ op: 'delete', line: fromLine, before, after: '' });
+    }
+
+    // 3. Joins (bottom-up, so a chain of joins builds one line).
+    // Deleted lines in between (e.g. a page number) are skipped: "Medi-" / "12" / "tation".
+    const joins = operations
+        .filter((op): op is Extract<EditOperation, { op: 'join' }> => op.op === 'join')
+        .sort((a, b) => b.line - a.line);
+    const consumed = new Set<number>();
+    for (const op of joins) {
+        let next = op.line + 1;
+        while (next <= lines.length && deleted.has(next) && !consumed.has(next)) next++;
+        if (next > lines.length || consumed.has(next) || op.line > lines.length) {
+            reject(op, op.line, lines[op.line - 1] || '', 'Keine Folgezeile vorhanden');
+            continue;
+        }
+        if (deleted.has(op.line)) {
+            reject(op, op.line, lines[op.line - 1], 'Zeile wurde gelöscht oder bereits verbunden');
+            continue;
+        }
+        // Lines with a pause tag or placeholder keep their line breaks
+        if (containsProtectedTag(lines[op.line - 1]) || containsProtectedTag(lines[next - 1])) {
+            reject(op, op.line, `${lines[op.line - 1]}\n${lines[next - 1]}`, 'Geschützter Tag betroffen');
+            continue;
+        }
+        const left = lines[op.line - 1].replace(/\s+$/, '');
+        const right = lines[next - 1].replace(/^\s+/, '');
+        const isHyphenated = options.hyphenationStyle === 'join' && /\p{L}-$/u.test(left) && /^\p{Ll}/u.test(right);
+        const result = isHyphenated ? left.slice(0, -1) + right : (left && right ? `${left} ${right}` : left + right);
+        edits.push({ op: 'join', line: op.line, before: `${lines[op.line - 1]}\n${lines[next - 1]}`, after: result });
+        lines[op.line - 1] = result;
+        deleted.add(next);
+        consumed.add(next);
+    }
+
+    const resultText = lines.filter((_, index) => !deleted.has(index + 1)).join('\n');
+    return { text: resultText, edits: edits.sort((a, b) => a.line - b.line) };
+}
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { processChunkWithWatchdog } from './geminiService';
+import { ChunkWarning, CleaningOptions } from '../types';
+import { StubAiServer, delta, extractPayload, sendSse, startStubAiServer } from './testing/stubAiServer';
+
+let stub: StubAiServer;
+
+beforeEach(async () => {
+    stub = await startStubAiServer();
+});
+
+afterEach(() => stub.close());
+
+const localOptions = (overrides: Partial<CleaningOptions> = {}): CleaningOptions => ({
+    chapterStyle: 'keep',
+    listStyle: 'keep',
+    hyphenationStyle: 'keep',
+    aiProvider: 'local',
+    localLlm: { baseUrl: stub.baseUrl, model: 'stub-model', timeoutSeconds: 10 },
+    applyPhoneticCorrections: false,
+    ...overrides,
+});
+
+describe('processChunkWithWatchdog with a local LLM', () => {
+    it('sends stage directions as placeholders and restores them', async () => {
+        // The stub model echoes the payload
+        stub.setHandler((request, response) => sendSse(response, [delta(extractPayload(request))]));
+        const chunk = 'Atme ruhig ein.\nPAUSE für 2 Minuten\nUnd wieder aus.';
+
+        const result = await processChunkWithWatchdog(chunk, localOptions({ processingMode: 'meditation' }), new AbortController().signal);
+
+        const payload = extractPayload(stub.requests[0]);
+        expect(payload).not.toContain('PAUSE');
+        expect(payload).toContain('[[PROTECTED_STAGE_DIRECTION_0]]');
+        expect(result).toContain('PAUSE für 2 Minuten');
+        expect(stub.requests[0].body.model).toBe('stub-model');
+    });
+});
+
+describe('processChunkWithWatchdog injection guard', () => {
+    it('keeps an AI result with first-person prose', async () => {
+        const cleaned = 'Es war ein ruhiger Frühling.\nIch habe am dritten Mai zum Beispiel zwei Stunden im Garten gearbeitet.\nIch werde circa zwölf Wochen brauchen, bis ich die Übungen wirklich beherrsche.\nDanach ging ich ins Haus.';
+        stub.setHandler((_request, response) => sendSse(response, [delta(cleaned)]));
+        const warnings: ChunkWarning[] = [];
+
+        const result = await processChunkWithWatchdog(
+            'Es war ein ruhiger Frühling.\nIch habe am 3. Mai z.B. zwei Stunden im Garten gearbeitet.\nIch werde ca. 12 Wochen brauchen, bis ich die Übungen wirklich beherrsche.\nDanach ging ich ins Haus.',
+            localOptions(),
+            new AbortController().signal,
+            undefined,
+            warning => warnings.push(warning)
+        );
+
+        expect(result).toBe(cleaned);
+        expect(warnings).toEqual([]);
+    });
+
+    it('cleans the chunk offline when the answer contains commentary', async () => {
+        stub.setHandler((_request, response) => sendSse(response, [delta('Der Garten war schön.\nIch habe die Seitenzahlen entfernt.\nDie Sonne schien.')]));
+        const warnings: ChunkWarning[] = [];
+
+        await processChunkWithWatchdog('Der Garten war schön.\n12\nDie Sonne schien.', localOptions(), new AbortController().signal, undefined, warning => warnings.push(warning));
+
+        expect(warnings.map(warning => [warning.kind, warning.resolution])).toEqual([['injection', 'fallback']]);
+        // No retry for a suspicious answer
+        expect(stub.requests).toHaveLength(1);
+    });
+});
@@ -0,0 +1,97 @@
+import { CleaningOptions, GlossaryTerm, InvariantViolation } from '../types';
+
+/**
+ * GLOSSARY SERVICE
+ *
+ * Protected terms (brand names, character names, technical terms) that must not be
+ * "corrected" anywhere in the pipeline:
+ * - The AI gets them as an instruction ({{glossary}} placeholder of the prompt templates)
+ * - Terms marked exemptFromRules are hidden from abbreviation expansion and phonetic corrections
+ * - The offline rules write the preferred spelling
+ * - After each AI chunk, every term of the input must be found in the output (in its preferred spelling)
+ *
+ * Terms match case-sensitively and as whole words; a trailing "s" (genitive, plural) is allowed.
+ */
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function termRegex(spelling: string): RegExp {
+    return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(spelling)}(?=s?(?![\\p{L}\\p{N}]))`, 'gu');
+}
+
+function countOccurrences(text: string, spelling: string): number {
+    return (text.match(termRegex(spelling)) || []).length;
+}
+
+function getPreferredSpelling(entry: GlossaryTerm): string {
+    return entry.preferred?.trim() || entry.term.trim();
+}
+
+/**
+ * Glossary entries with a term (empty rows of the editor are ignored).
+ */
+export function getActiveGlossary(glossary?: GlossaryTerm[]): GlossaryTerm[] {
+    return (glossary || []).filter(entry => entry.term.trim().length > 0);
+}
+
+/**
+ * Runs a rule-based transformation with the exempt terms replaced by placeholders.
+ * Longer terms first, so "Dr. Oetker" wins over "Dr.".
+ */
+export function withGlossaryTermsProtected(text: string, glossary: GlossaryTerm[] | undefined, transform: (text: string) => string): string {
+    const exemptTerms = getActiveGlossary(glossary)
+        .filter(entry => entry.exemptFromRules)
+        .map(entry => entry.term.trim())
+        .sort((a, b) => b.length - a.length);
+    if (exemptTerms.length === 0) return transform(text);
+
+    const originals: string[] = [];
+    let protectedText = text;
+    for (const term of exemptTerms) {
+        protectedText = protectedText.replace(termRegex(term), (match: string) => {
+            originals.push(match);
+            return `[[PROTECTED_TERM_${originals.length - 1}]]`;
+        });
+    }
+    return transform(protectedText).replace(/\[\[PROTECTED_TERM_(\d+)\]\]/g, (placeholder, index: string) => originals[Number(index)] ?? placeholder);
+}
+
+/**
+ * Replaces terms by their preferred spelling (offline rules - the AI gets an instruction instead).
+ */
+export function applyPreferredSpellings(text: string, glossary?: GlossaryTerm[]): string {
+    return getActiveGlossary(glossary)
+        .filter(entry => entry.preferred?.trim() && entry.preferred.trim() !== entry.term.trim())
+        .reduce((result, entry) => result.replace(termRegex(entry.term.trim()), entry.preferred!.trim()), text);
+}
+
+/**
+ * Prompt fragment for the {{glossary}} placeholder.
+ */
+export function buildGlossaryInstruction(options: CleaningOptions): string {
+    const glossary = getActiveGlossary(options.glossary);
+    if (glossary.length === 0) return '';
+
+    const terms = glossary.map(entry => {
+        const preferred = getPreferredSpelling(entry);
+        return preferred !== entry.term.trim() ? `"${entry.term.trim()}" → "${preferred}"` : `"${entry.term.trim()}"`;
+    });
+    return `- **Geschützte Begriffe:** Schreibe diese Begriffe EXAKT so (bzw. in der Schreibweise nach dem Pfeil). Nicht korrigieren, übersetzen, ausschreiben oder phonetisch anpassen: ${terms.join(', ')}`;
+}
+
+/**
+ * Glossary check of an AI chunk: each occurrence of a term (or its preferred spelling)
+ * in the input must appear in the output in the preferred spelling.
+ */
+export function checkGlossaryTerms(input: string, output: string, glossary?: GlossaryTerm[]): InvariantViolation[] {
+    const violations: InvariantViolation[] = [];
+    for (const entry of getActiveGlossary(glossary)) {
+        const term = entry.term.trim();
+        const preferred = getPreferredSpelling(entry);
+        const expected = countOccurrences(input, term) + (preferred !== term ? countOccurrences(input, preferred) : 0);
+        if (expected > 0 && countOccurrences(output, preferred) < expected) {
+            violations.push({ kind: 'glossary', value: preferred !== term ? `${term} → ${preferred}` : term });
+        }
+    }
+    return violations;
+}
@@ -0,0 +1,170 @@
+/**
+ * INJECTION GUARD SERVICE
+ *
+ * Documents are data, not instructions. A book may well contain a sentence like
+ * "Ignoriere alle vorherigen Anweisungen…" - the AI must clean it like any other text.
+ * - The payload is enclosed in markers with a random nonce that the document cannot fake
+ * - Chunks with instruction-like content are detected (and the AI is reminded of them)
+ * - The response is checked for assistant commentary that cleanAiResponse does not strip,
+ *   and for detected instructions that vanished (the AI obeyed instead of cleaning)
+ * A failed post-check makes the watchdog clean the chunk offline.
+ *
+ * Both checks compare words fuzzily against the expected-edits form of the input
+ * (applyExpectedEdits): cleaning legitimately changes numbers, abbreviations and hyphenation,
+ * so first-person prose ("Ich habe am 3. Mai…") must not be mistaken for commentary.
+ */
+
+export interface PayloadMarkers {
+    start: string;
+    end: string;
+    contextStart: string;
+    contextEnd: string;
+}
+
+// Markers copied by the model into its answer
+const PAYLOAD_MARKER_REGEX = /^[ \t]*<<<(?:TEXT|ENDE|KONTEXT|KONTEXT-ENDE) [0-9a-f]+>>>[ \t]*$/gm;
+
+// Text addressed at the model rather than at the reader (German and English)
+const INSTRUCTION_PATTERNS: RegExp[] = [
+    /\b(?:ignoriere|vergiss|missachte)\b[^.!?\n]{0,40}\b(?:anweisungen|instruktionen|regeln|vorgaben|befehle)\b/i,
+    /\b(?:ignore|disregard|forget)\b[^.!?\n]{0,40}\b(?:instructions|rules|prompts?|directions)\b/i,
+    /\b(?:du bist|sie sind) (?:jetzt|ab sofort|nun) (?:ein|eine|der|die|kein)\b/i,
+    /\byou are now\b/i,
+    /\b(?:neue|geänderte) (?:anweisung|aufgabe|regel)\s*:/i,
+    /\bnew instructions?\s*:/i,
+    /\b(?:system-?prompt|systemanweisung|system prompt)\b/i,
+    /\b(?:antworte|antworten sie|respond|reply) (?:nur|ausschließlich|only)\b/i,
+    /^\s*(?:system|assistant|user|assistent)\s*:/im,
+    /<\|im_(?:start|end)\|>|\[\/?INST\]|^#{2,}\s*(?:instruction|anweisung)/im,
+];
+
+// Lines that sound like the assistant talking about its work
+const COMMENTARY_PATTERNS: RegExp[] = [
+    /^(?:Hinweis|Anmerkung|Bemerkung|Note|Erklärung|Änderungen)\s*:/i,
+    /^(?:Hier ist|Hier sind|Here is|Here are|Gerne|Sure|Certainly|Natürlich|Selbstverständlich)\b/i,
+    /^(?:Ich habe|Ich kann|Ich werde|Ich konnte|I have|I can|I will|I cannot|I can't|I'm|I am)\b/i,
+    /^(?:Es tut mir leid|Leider kann ich|Entschuldigung|Sorry|I'm sorry|Unfortunately)\b/i,
+    /^(?:Soll ich|Möchtest du|Möchten Sie|Lass mich wissen|Let me know|Falls du|Falls Sie)\b/i,
+    /\b(?:als (?:KI|Sprachmodell|KI-Assistent)|as an AI|language model|Sprachmodell)\b/i,
+];
+
+// Share of a line's words that must be found close together in the other text
+const WORD_OVERLAP_THRESHOLD = 0.6;
+// Extra words a matching window may have beyond the line length (inserted or expanded words)
+const WINDOW_SLACK_RATIO = 0.5;
+
+function createNonce(): string {
+    const bytes = new Uint8Array(6);
+    crypto.getRandomValues(bytes);
+    return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Markers for one request. The nonce is new for every request and never part of the text.
+ */
+export function createPayloadMarkers(text: string): PayloadMarkers {
+    let nonce = createNonce();
+    while (text.includes(nonce)) {
+        nonce = createNonce();
+    }
+    return {
+        start: `<<<TEXT ${nonce}>>>`,
+        end: `<<<ENDE ${nonce}>>>`,
+        contextStart: `<<<KONTEXT ${nonce}>>>`,
+        contextEnd: `<<<KONTEXT-ENDE ${nonce}>>>`,
+    };
+}
+
+export function stripPayloadMarkers(text: string): string {
+    return text.replace(PAYLOAD_MARKER_REGEX, '');
+}
+
+/**
+ * Passages of the chunk that read like instructions to an AI.
+ */
+export function findInstructionLikeContent(text: string): string[] {
+    const findings: string[] = [];
+    for (const pattern of INSTRUCTION_PATTERNS) {
+        const match = text.match(pattern);
+        if (match) findings.push(match[0].trim());
+    }
+    return [...new Set(findings)];
+}
+
+/**
+ * Lowercase words for comparison. Hyphenation is joined; pure numbers are dropped
+ * (the AI writes them out or removes page numbers).
+ */
+function toComparableWords(text: string): string[] {
+    return (text
+        .toLowerCase()
+        .replace(/(\p{L})-\s*\n\s*(\p{L})/gu, '$1$2')
+        .match(/[\p{L}\p{N}]+/gu) || [])
+        .filter(word => !/^\d+$/.test(word));
+}
+
+/**
+ * True if most words of the passage appear close together in the text (order-insensitive
+ * within a window slightly longer than the passage).
+ */
+function appearsIn(passage: string, textWords: string[]): boolean {
+    const words = toComparableWords(passage);
+    if (words.length === 0) return true;
+
+    const needed = Math.ceil(words.length * WORD_OVERLAP_THRESHOLD);
+    const windowSize = words.length + Math.ceil(words.length * WINDOW_SLACK_RATIO) + 1;
+    const wanted = new Set(words);
+
+    for (let start = 0; start < textWords.length; start++) {
+        if (!wanted.has(textWords[start])) continue;
+        const remaining = new Map<string, number>();
+        for (const word of words) remaining.set(word, (remaining.get(word) || 0) + 1);
+
+        let found = 0;
+        for (const word of textWords.slice(start, start + windowSize)) {
+            const count = remaining.get(word) || 0;
+            if (count > 0) {
+                remaining.set(word, count - 1);
+                found++;
+            }
+        }
+        if (found >= needed) return true;
+    }
+    return false;
+}
+
+/**
+ * Output lines that sound like assistant commentary and do not come from the input.
+ * reference: the input after the expected edits (applyExpectedEdits).
+ */
+export function findAssistantCommentary(reference: string, output: string): string[] {
+    const referenceWords = toComparableWords(reference);
+    return output
+        .split('\n')
+        .map(line => line.trim())
+        .filter(line => line && COMMENTARY_PATTERNS.some(pattern => pattern.test(line)))
+        .filter(line => !appearsIn(line, referenceWords));
+}
+
+/**
+ * Detected instructions that are missing from the output - the AI followed them instead of cleaning them.
+ */
+export function findDroppedInstructions(findings: string[], output: string): string[] {
+    const outputWords = toComparableWords(output);
+    return findings.filter(finding => !appearsIn(finding, outputWords));
+}
+
+/**
+ * Thrown by the watchdog when a response fails the post-check - the chunk goes straight to the offline fallback.
+ */
+export class SuspiciousResponseError extends Error {
+    commentary: string[];
+    droppedInstructions: string[];
+
+    constructor(commentary: string[], droppedInstructions: string[]) {
+        super(`Injection guard: ${commentary.length} commentary line(s), ${droppedInstructions.length} document instruction(s) followed.`);
+        this.name = 'SuspiciousResponseError';
+        this.commentary = commentary;
+        this.droppedInstructions = droppedInstructions;
+    }
+}
@@ -0,0 +1,157 @@
+import { CleaningOptions, InvariantViolation } from '../types';
+import { applyExpectedEdits } from './driftDetector';
+
+/**
+ * INVARIANT CHECKER SERVICE
+ *
+ * Hard checks on the AI output of a chunk. Independent of the fuzzy drift score,
+ * the following must survive cleaning:
+ * - Numbers (except page numbers; "3.5" → "3 Punkt 5" is allowed)
+ * - Capitalized words inside sentences (names, terms)
+ * - [PAUSE Xs] tags
+ * - [[PROTECTED_...]] placeholders (checked on the raw AI answer, before restoration)
+ *
+ * Content that the selected options remove on purpose (TOC, chapter headings,
+ * URLs, e-mails, references) is stripped from the input before comparing.
+ */
+
+const PAUSE_TAG_REGEX = /\[PAUSE\s+\d+(?:\.\d+)?s\]/gi;
+const PLACEHOLDER_REGEX = /\[\[PROTECTED_[A-Z_]+_\d+\]\]/g;
+const NUMBER_REGEX = /\d+(?:[.,]\d+)*/g;
+
+// Capitalized pronouns (formal address) are not names - the AI may change them legitimately at sentence starts
+const PRONOUN_STOPLIST = new Set([
+    'Sie', 'Ihr', 'Ihre', 'Ihrem', 'Ihren', 'Ihrer', 'Ihres', 'Ihnen',
+    'Du', 'Dich', 'Dir', 'Dein', 'Deine', 'Deinem', 'Deinen', 'Deiner', 'Deines',
+]);
+
+/**
+ * Removes input content that is expected to disappear during cleaning.
+ * Mirrors the removal rules of cleanTextOffline.
+ */
+function stripExpectedRemovals(text: string, options: CleaningOptions): string {
+    const isMeditationMode = options.processingMode === 'meditation';
+    let result = text;
+
+    // Page numbers: standalone numbers, "Seite 12", "- 12 -"
+    result = result.replace(/^\s*(?:[-–]\s*)?(?:Seite\s+|S\.\s*)?\d+(?:\s*[-–])?\s*$/gim, '');
+
+    if (!isMeditationMode) {
+        if (options.removeTableOfContents) {
+            result = result.replace(/^.*\.{3,}.*\d+\s*$/gm, '');
+        }
+        if (options.chapterStyle === 'remove') {
+            result = result.replace(/^(Kapitel|Chapter|Teil|Part|Abschnitt|Section)\s+\d+.*$/gim, '');
+        }
+        if (options.removeUrls) {
+            result = result.replace(/(https?:\/\/|www\.)[^\s]*/gi, '');
+        }
+        if (options.removeEmails) {
+            result = result.replace(/[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g, '');
+        }
+        if (options.removeReferences) {
+            result = result.replace(/\[\d+(?:[-,\s]+\d+)*\]/g, '');
+            result = result.replace(/\([A-Za-z\u00C0-\u017F\s.&]+,?\s+(?:19|20)\d{2}(?::\s?\d+)?\)/g, '');
+            result = result.replace(/\((?:vgl\.|siehe|see)\s+.*?\)/gi, '');
+        }
+    }
+
+    // Join hyphenation so split words are compared as a whole
+    return result.replace(/(\p{L})-\s*\n\s*(\p{Ll})/gu, '$1$2');
+}
+
+function countValues(values: string[]): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const value of values) {
+        counts.set(value, (counts.get(value) || 0) + 1);
+    }
+    return counts;
+}
+
+/**
+ * Returns every value that occurs less often in the output than in the input.
+ */
+function findMissing(inputValues: string[], outputValues: string[], kind: InvariantViolation['kind'], key: (value: string) => string = v => v): InvariantViolation[] {
+    const outputCounts = countValues(outputValues.map(key));
+    const inputCounts = new Map<string, { value: string; count: number }>();
+    for (const value of inputValues) {
+        const entry = inputCounts.get(key(value));
+        if (entry) entry.count++;
+        else inputCounts.set(key(value), { value, count: 1 });
+    }
+
+    const violations: InvariantViolation[] = [];
+    for (const [k, { value, count }] of inputCounts) {
+        if ((outputCounts.get(k) || 0) < count) {
+            violations.push({ kind, value });
+        }
+    }
+    return violations;
+}
+
+/**
+ * Extracts numbers (tags and placeholders excluded - they are checked separately).
+ * "3 Punkt 5" / "3 Komma 5" are read back as "3.5" / "3,5".
+ */
+function extractNumbers(text: string): string[] {
+    const withoutTags = text
+        .replace(PAUSE_TAG_REGEX, ' ')
+        .replace(PLACEHOLDER_REGEX, ' ')
+        .replace(/(\d+) (?:Punkt|Komma) (\d+)/g, '$1.$2');
+    return withoutTags.match(NUMBER_REGEX) || [];
+}
+
+/**
+ * Extracts capitalized words that are not at the start of a sentence or line.
+ * In German every noun is capitalized, so this covers names and terms alike.
+ */
+function extractNames(text: string): string[] {
+    const names: string[] = [];
+    const cleaned = text.replace(PAUSE_TAG_REGEX, ' ').replace(PLACEHOLDER_REGEX, ' ');
+    const wordRegex = /\p{Lu}[\p{L}'’-]*\p{L}/gu;
+
+    for (const match of cleaned.matchAll(wordRegex)) {
+        const word = match[0];
+        if (word.length < 3 || PRONOUN_STOPLIST.has(word)) continue;
+
+        const before = cleaned.substring(0, match.index).trimEnd();
+        const previousChar = before.charAt(before.length - 1);
+        const isSentenceStart = !previousChar || /[.!?:;\n"„“»«(\[\-–•*]/.test(previousChar) || /\n\s*$/.test(cleaned.substring(0, match.index));
+        if (!isSentenceStart) {
+            names.push(word);
+        }
+    }
+    return names;
+}
+
+/**
+ * Every capitalized word of the output (at any position) - sentences may be merged or split.
+ */
+function extractAllCapitalized(text: string): string[] {
+    return text.match(/\p{Lu}[\p{L}'’-]*\p{L}/gu) || [];
+}
+
+/**
+ * Checks numbers, names and pause tags of the AI output against the input chunk.
+ */
+export function checkContentInvariants(input: string, output: string, options: CleaningOptions): InvariantViolation[] {
+    const reference = stripExpectedRemovals(applyExpectedEdits(input, options), options);
+
+    // Numbers: compared by digits only ("1.000" and "1000", "3.5" and "3 Punkt 5" are equal)
+    const digitsOnly = (value: string) => value.replace(/\D/g, '');
+    const numberViolations = findMissing(extractNumbers(reference), extractNumbers(output), 'number', digitsOnly);
+
+    const nameViolations = findMissing(extractNames(reference), extractAllCapitalized(output), 'name');
+
+    const normalizeTag = (tag: string) => tag.toUpperCase().replace(/\s+/g, ' ');
+    const pauseViolations = findMissing(reference.match(PAUSE_TAG_REGEX) || [], output.match(PAUSE_TAG_REGEX) || [], 'pause', normalizeTag);
+
+    return [...numberViolations, ...nameViolations, ...pauseViolations];
+}
+
+/**
+ * Checks that every protection placeholder sent to the AI came back unchanged.
+ */
+export function checkPlaceholders(protectedInput: string, rawOutput: string): InvariantViolation[] {
+    return findMissing(protectedInput.match(PLACEHOLDER_REGEX) || [], rawOutput.match(PLACEHOLDER_REGEX) || [], 'placeholder');
+}
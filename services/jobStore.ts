@@ -0,0 +1,41 @@
+import { CleaningJob } from '../types';
+import { JOBS_STORE, runStoreRequest } from './appDatabase';
+
+/**
+ * JOB STORE SERVICE
+ *
+ * Persists the running cleaning job in IndexedDB after every chunk.
+ * Only one job is kept - starting a new cleaning run replaces it.
+ * After a crash, reload or cancel the app offers to resume it.
+ */
+
+const ACTIVE_JOB_ID = 'active';
+
+export async function saveJob(job: CleaningJob): Promise<void> {
+    try {
+        await runStoreRequest(JOBS_STORE, 'readwrite', store => store.put({ ...job, id: ACTIVE_JOB_ID }));
+    } catch (e) {
+        // Not fatal - the run continues, it just cannot be resumed
+        console.warn("Saving the cleaning job failed", e);
+    }
+}
+
+export async function loadJob(): Promise<CleaningJob | null> {
+    try {
+        const record = await runStoreRequest<(CleaningJob & { id: string }) | undefined>(JOBS_STORE, 'readonly', store => store.get(ACTIVE_JOB_ID));
+        if (!record) return null;
+        const { id, ...job } = record;
+        return job;
+    } catch (e) {
+        console.warn("Loading the cleaning job failed", e);
+        return null;
+    }
+}
+
+export async function clearJob(): Promise<void> {
+    try {
+        await runStoreRequest(JOBS_STORE, 'readwrite', store => store.delete(ACTIVE_JOB_ID));
+    } catch (e) {
+        console.warn("Clearing the cleaning job failed", e);
+    }
+}
@@ -0,0 +1,60 @@
+/**
+ * KEEP REGIONS SERVICE
+ *
+ * Passages marked with {{keep}}…{{/keep}} in the source text (poems, quotations,
+ * legal text) pass through the whole pipeline verbatim. Before splitting, every
+ * region is replaced by a [[PROTECTED_KEEP_n]] placeholder - chunking, the AI,
+ * the offline rules, custom replacements, abbreviations and phonetic corrections
+ * only ever see the placeholder (invariantChecker reports a lost one).
+ * The regions come back with their markers at the end; the markers are stripped on export.
+ *
+ * A region whose markers stand on their own lines is a block and becomes its own paragraph.
+ */
+
+const KEEP_REGION_REGEX = /\{\{keep\}\}[\s\S]*?\{\{\/keep\}\}/gi;
+const KEEP_PLACEHOLDER_REGEX = /\[\[PROTECTED_KEEP_(\d+)\]\]/g;
+
+export interface ProtectedKeepRegions {
+    text: string;
+    regions: string[];   // Original regions including their markers, index = placeholder number
+}
+
+export function hasKeepRegions(text: string): boolean {
+    return /\{\{keep\}\}/i.test(text);
+}
+
+export function protectKeepRegions(text: string): ProtectedKeepRegions {
+    const regions: string[] = [];
+    const protectedText = text.replace(KEEP_REGION_REGEX, (region: string, offset: number) => {
+        regions.push(region);
+        const placeholder = `[[PROTECTED_KEEP_${regions.length - 1}]]`;
+        const end = offset + region.length;
+        const isBlock = (offset === 0 || text[offset - 1] === '\n') && (end === text.length || text[end] === '\n');
+        return isBlock ? `\n\n${placeholder}\n\n` : placeholder;
+    });
+    return { text: protectedText, regions };
+}
+
+export function restoreKeepRegions(text: string, regions: string[]): string {
+    if (regions.length === 0) return text;
+    return text.replace(KEEP_PLACEHOLDER_REGEX, (placeholder, index: string) => regions[Number(index)] ?? placeholder);
+}
+
+/**
+ * Runs a text transformation on everything outside the keep regions.
+ */
+export function withKeepRegionsProtected(text: string, transform: (text: string) => string): string {
+    if (!hasKeepRegions(text)) return transform(text);
+    const { text: protectedText, regions } = protectKeepRegions(text);
+    return restoreKeepRegions(transform(protectedText), regions);
+}
+
+/**
+ * Removes the markers for export (download, clipboard, speech). Marker lines of block regions vanish completely.
+ */
+export function stripKeepMarkers(text: string): string {
+    return text
+        .replace(/^[ \t]*\{\{keep\}\}[ \t]*\n/gim, '')
+        .replace(/\n[ \t]*\{\{\/keep\}\}[ \t]*$/gim, '')
+        .replace(/\{\{\/?keep\}\}/gi, '');
+}
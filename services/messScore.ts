@@ -0,0 +1,92 @@
+/**
+ * MESS SCORE SERVICE (Hybrid cleaning)
+ *
+ * Rates locally how "messy" a chunk is, without any API call.
+ * In hybrid mode every chunk is cleaned offline (regex); only chunks above
+ * the threshold are sent to the AI - well-formatted text needs no AI repair.
+ *
+ * Signals (each normalized to 0..1):
+ * - hyphenation:  words split at line ends ("Medi-\ntation")
+ * - pageNumbers:  standalone number lines
+ * - lineBreaks:   line breaks inside sentences (PDF hard wraps)
+ * - mojibake:     broken encodings ("Ã¤", "â€", "�")
+ * - symbols:      density of unusual symbols (OCR noise, layout remnants)
+ */
+
+export interface MessScore {
+    score: number;   // 0..1, weighted sum of the signals
+    signals: {
+        hyphenation: number;
+        pageNumbers: number;
+        lineBreaks: number;
+        mojibake: number;
+        symbols: number;
+    };
+}
+
+// Raw value at which a signal counts as fully messy (1.0)
+const SATURATION = {
+    hyphenation: 0.05,   // Share of lines ending with a split word
+    pageNumbers: 0.02,   // Share of lines that are only a number
+    lineBreaks: 0.5,     // Share of lines broken inside a sentence
+    mojibake: 0.002,     // Broken characters per character
+    symbols: 0.01,       // Unusual symbols per character
+};
+
+const WEIGHTS = {
+    hyphenation: 0.25,
+    pageNumbers: 0.15,
+    lineBreaks: 0.3,
+    mojibake: 0.15,
+    symbols: 0.15,
+};
+
+const MOJIBAKE_REGEX = /Ã[\u0080-¿]|â€|Â[ -¿]|�/g;
+// Everything except letters, digits, whitespace and common punctuation
+const UNUSUAL_SYMBOL_REGEX = /[^\p{L}\p{N}\s.,;:!?'"„“”‚‘’«»()\[\]\-–—…\/&%§€$@#*+=]/gu;
+
+const saturate = (value: number, limit: number) => Math.min(1, value / limit);
+
+export function computeMessScore(chunk: string): MessScore {
+    const lines = chunk.split('\n');
+    const textLines = lines.filter(line => line.trim().length > 0);
+    const lineCount = Math.max(1, textLines.length);
+    const charCount = Math.max(1, chunk.length);
+
+    let hyphenatedLines = 0;
+    let brokenLines = 0;
+    for (let i = 0; i < lines.length - 1; i++) {
+        const line = lines[i].trimEnd();
+        const next = lines[i + 1].trimStart();
+        if (!line || !next) continue;
+        if (/\p{L}-$/u.test(line) && /^\p{Ll}/u.test(next)) {
+            hyphenatedLines++;
+        } else if (!/[.!?:;"“”»«)]$/.test(line)) {
+            brokenLines++;
+        }
+    }
+
+    const pageNumberLines = textLines.filter(line => /^\s*(?:[-–]\s*)?(?:Seite\s+|S\.\s*)?\d{1,4}(?:\s*[-–])?\s*$/i.test(line)).length;
+    const mojibakeCount = (chunk.match(MOJIBAKE_REGEX) || []).length;
+    const symbolCount = (chunk.match(UNUSUAL_SYMBOL_REGEX) || []).length;
+
+    const signals = {
+        hyphenation: saturate(hyphenatedLines / lineCount, SATURATION.hyphenation),
+        pageNumbers: saturate(pageNumberLines / lineCount, SATURATION.pageNumbers),
+        lineBreaks: saturate(brokenLines / lineCount, SATURATION.lineBreaks),
+        mojibake: saturate(mojibakeCount / charCount, SATURATION.mojibake),
+        symbols: saturate(symbolCount / charCount, SATURATION.symbols),
+    };
+
+    const score = (Object.keys(WEIGHTS) as (keyof typeof WEIGHTS)[])
+        .reduce((sum, key) => sum + signals[key] * WEIGHTS[key], 0);
+
+    return { score, signals };
+}
+
+/**
+ * True if the chunk should be sent to the AI in hybrid mode.
+ */
+export function isMessyChunk(chunk: string, threshold: number): boolean {
+    return computeMessScore(chunk).score >= threshold;
+}
@@ -1,6 +1,9 @@
 // This service encapsulates all file parsing logic.
+import { WordFormatError, extractWordBinaryText, isOle2File } from './wordBinaryReader';
+import { PdfPageLayout, PdfTextItem, buildPdfPageLines, reconstructPdfText, removeRunningHeadersFooters } from './pdfLayout';
+import { ExtractionOptions, ExtractionReport } from '../types';
 
-// pdf.js, mammoth.js, jschardet, jszip, and rtf.js are loaded from CDN in index.html, types are in global.d.ts
+// pdf.js, mammoth.js, jschardet, jszip (also used for EPUB), and rtf.js are loaded from CDN in index.html, types are in global.d.ts
 
 if (typeof pdfjsLib !== 'undefined') {
     pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdnjs.cloudflare.com/ajax/libs/pdf.js/4.5.136/pdf.worker.min.mjs`;
@@ -127,7 +130,7 @@ const readBufferSafe = async (file: File): Promise<ArrayBuffer> => {
     }
 };
 
-const parsePdf = async (file: File, onProgress?: (percent: number) => void): Promise<string> => {
+const parsePdf = async (file: File, onProgress?: (percent: number) => void, onReport?: (report: ExtractionReport) => void, options?: ExtractionOptions): Promise<string> => {
     let pdf: any = null;
     try {
         // Use centralized safe reader
@@ -137,17 +140,22 @@ const parsePdf = async (file: File, onProgress?: (percent: number) => void): Pro
         const loadingTask = pdfjsLib.getDocument(arrayBuffer);
         pdf = await loadingTask.promise;
 
-        let textContent = '';
+        // Lines are built per page, paragraphs and headings need the whole document (body font size)
+        const pages: PdfPageLayout[] = [];
         const numPages = pdf.numPages;
+        const columnLayout = options?.pdfColumns ?? 'auto';
+        let twoColumnPages = 0;
 
         for (let i = 1; i <= numPages; i++) {
             const page = await pdf.getPage(i);
             const text = await page.getTextContent();
+            const viewport = page.getViewport({ scale: 1 });
 
-            const items = text.items;
-            for (let j = 0; j < items.length; j++) {
-                textContent += items[j].str + ' ';
-            }
+            // Marked content items carry no text
+            const items: PdfTextItem[] = text.items.filter((item: any) => typeof item.str === 'string');
+            const { lines, twoColumns } = buildPdfPageLines(items, columnLayout);
+            if (twoColumns) twoColumnPages++;
+            pages.push({ lines, width: viewport.width, height: viewport.height });
 
             // Release page resources immediately
             page.cleanup();
@@ -165,6 +173,11 @@ const parsePdf = async (file: File, onProgress?: (percent: number) => void): Pro
             }
         }
 
+        // Running headers/footers only show up across pages
+        const { pages: bodyPages, removed } = removeRunningHeadersFooters(pages);
+        if (onReport) onReport({ removedRunningLines: removed, twoColumnPages, columnLayout });
+
+        const textContent = reconstructPdfText(bodyPages);
         if (!textContent.trim()) {
             throw new Error('EMPTY_CONTENT');
         }
@@ -217,9 +230,10 @@ const parseDocx = async (file: File, onProgress?: (percent: number) => void): Pr
         const view = new DataView(arrayBuffer);
         const magic = view.getUint32(0, false); // Big-Endian
 
-        // Check for OLE2 signature (0xD0CF11E0) -> Renamed .doc file
+        // Check for OLE2 signature (0xD0CF11E0) -> Renamed .doc file, read it as Word 97-2003
         if (magic === 0xD0CF11E0) {
-            throw new Error('Format-Fehler: Dies ist eine alte Word-Datei (.doc), die fälschlicherweise die Endung .docx hat. Bitte öffnen Sie die Datei in Word und speichern Sie sie als "Word-Dokument (*.docx)" neu.');
+            console.warn("DOCX file is an OLE2 compound file, reading it as legacy .doc");
+            return extractDocText(arrayBuffer, onProgress);
         }
 
         // Check for ZIP signature (PK.. -> starts with 0x504B)
@@ -249,8 +263,8 @@ const parseDocx = async (file: File, onProgress?: (percent: number) => void): Pr
     } catch (docxError: any) {
         console.error("DOCX extraction failed:", docxError);
 
-        // Propagate our own safe read errors immediately
-        if (docxError.message && (docxError.message.startsWith('Zugriff verweigert') || docxError.message.startsWith('Format-Fehler'))) {
+        // Propagate our own safe read errors immediately (also those of a renamed .doc file)
+        if (docxError instanceof WordFormatError || (docxError.message && (docxError.message.startsWith('Zugriff verweigert') || docxError.message.startsWith('Format-Fehler')))) {
             throw docxError;
         }
 
@@ -320,6 +334,42 @@ const parseDocx = async (file: File, onProgress?: (percent: number) => void): Pr
     }
 };
 
+const extractDocText = (arrayBuffer: ArrayBuffer, onProgress?: (percent: number) => void): string => {
+    if (onProgress) onProgress(40);
+    const text = extractWordBinaryText(arrayBuffer);
+    if (!text.trim()) {
+        throw new WordFormatError('Die Word-Datei (.doc) scheint keinen lesbaren Text zu enthalten.');
+    }
+    if (onProgress) onProgress(100);
+    return text;
+};
+
+const parseDoc = async (file: File, onProgress?: (percent: number) => void): Promise<string> => {
+    try {
+        if (onProgress) onProgress(10);
+        // Use centralized safe reader
+        const arrayBuffer = await readBufferSafe(file);
+
+        // Many ".doc" files are really RTF or DOCX (saved by other programs)
+        if (!isOle2File(arrayBuffer)) {
+            const head = new TextDecoder('latin1').decode(new Uint8Array(arrayBuffer, 0, Math.min(5, arrayBuffer.byteLength)));
+            if (head.startsWith('{\\rtf')) return parseRtf(file, onProgress);
+            if (head.startsWith('PK')) return parseDocx(file, onProgress);
+            throw new WordFormatError('Format-Fehler: Die Datei ist kein Word-97-2003-Dokument (.doc). Die Datei ist beschädigt oder hat ein falsches Format.');
+        }
+
+        return extractDocText(arrayBuffer, onProgress);
+    } catch (docError: any) {
+        console.error("DOC extraction failed:", docError);
+
+        // Our own messages (access, format, password, damaged structure) are shown as they are
+        if (docError instanceof WordFormatError || (docError.message && docError.message.startsWith('Zugriff verweigert'))) {
+            throw docError;
+        }
+        throw new Error(`Fehler beim Lesen der Word-Datei (.doc): ${docError.message || 'Unbekannter Fehler'}`);
+    }
+};
+
 const parseOdt = async (file: File, onProgress?: (percent: number) => void): Promise<string> => {
     try {
         if (onProgress) onProgress(10);
@@ -378,6 +428,218 @@ const parseOdt = async (file: File, onProgress?: (percent: number) => void): Pro
     }
 };
 
+// --- EPUB ---
+
+const EPUB_SKIPPED_TAGS = new Set(['head', 'script', 'style', 'nav', 'aside', 'figure', 'img', 'svg', 'rt', 'rp']);
+const EPUB_BLOCK_TAGS = new Set(['p', 'div', 'section', 'article', 'main', 'body', 'blockquote', 'li', 'ul', 'ol', 'dl', 'dt', 'dd', 'pre', 'table', 'tr', 'td', 'th', 'header', 'footer', 'hr']);
+const EPUB_HEADING_REGEX = /^h[1-6]$/;
+// Font obfuscation also uses encryption.xml - only these algorithms mean real DRM is absent
+const EPUB_FONT_OBFUSCATION = ['http://www.idpf.org/2008/embedding', 'http://ns.adobe.com/pdf/enc#RC'];
+
+const parseXml = (xml: string, type: DOMParserSupportedType = 'application/xml') => new DOMParser().parseFromString(xml, type);
+
+// Elements by local name, independent of namespace prefixes (opf:item, dc:title, ...)
+const elementsByName = (doc: Document | Element, name: string) => Array.from(doc.getElementsByTagNameNS('*', name));
+
+// Resolves a manifest href relative to the OPF file ("OEBPS/content.opf" + "../Text/ch1.xhtml")
+const resolveEpubPath = (baseDir: string, href: string) => {
+    const parts = (baseDir + decodeURIComponent(href.split('#')[0])).split('/');
+    const resolved: string[] = [];
+    for (const part of parts) {
+        if (part === '..') resolved.pop();
+        else if (part && part !== '.') resolved.push(part);
+    }
+    return resolved.join('/');
+};
+
+const normalizeEpubText = (text: string) => text
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+
+// Footnote markers and page break anchors are not part of the reading text
+const isSkippedEpubElement = (element: Element) =>
+    EPUB_SKIPPED_TAGS.has(element.localName.toLowerCase())
+    || /\b(?:noteref|pagebreak|toc)\b/.test(element.getAttribute('epub:type') || '');
+
+// Text of an inline element (span, em, a, ...) including nested markers and line breaks
+const collectEpubInlineText = (element: Element): string => {
+    let text = '';
+    for (const node of Array.from(element.childNodes)) {
+        if (node.nodeType === Node.TEXT_NODE) {
+            text += node.textContent;
+        } else if (node.nodeType === Node.ELEMENT_NODE) {
+            const child = node as Element;
+            if (isSkippedEpubElement(child)) continue;
+            text += child.localName.toLowerCase() === 'br' ? '\n' : collectEpubInlineText(child);
+        }
+    }
+    return text;
+};
+
+/**
+ * Collects the paragraphs of an XHTML content document. Headings become paragraphs of their own;
+ * a heading that opens a chapter (h1/h2) is marked so it gets extra space.
+ */
+const collectEpubBlocks = (element: Element, blocks: { text: string; isChapter: boolean }[]) => {
+    let inlineText = '';
+    const flush = () => {
+        const text = normalizeEpubText(inlineText);
+        if (text) blocks.push({ text, isChapter: false });
+        inlineText = '';
+    };
+
+    for (const node of Array.from(element.childNodes)) {
+        if (node.nodeType === Node.TEXT_NODE) {
+            inlineText += node.textContent;
+            continue;
+        }
+        if (node.nodeType !== Node.ELEMENT_NODE) continue;
+
+        const child = node as Element;
+        if (isSkippedEpubElement(child)) continue;
+        const tag = child.localName.toLowerCase();
+
+        if (tag === 'br') {
+            inlineText += '\n';
+        } else if (EPUB_HEADING_REGEX.test(tag)) {
+            flush();
+            const text = normalizeEpubText(collectEpubInlineText(child)).replace(/\n/g, ' ');
+            if (text) blocks.push({ text, isChapter: tag === 'h1' || tag === 'h2' });
+        } else if (EPUB_BLOCK_TAGS.has(tag)) {
+            flush();
+            collectEpubBlocks(child, blocks);
+        } else {
+            inlineText += collectEpubInlineText(child);
+        }
+    }
+    flush();
+};
+
+const parseEpub = async (file: File, onProgress?: (percent: number) => void): Promise<string> => {
+    try {
+        if (onProgress) onProgress(10);
+        // Use centralized safe reader
+        const arrayBuffer = await readBufferSafe(file);
+        const zip = await JSZip.loadAsync(arrayBuffer);
+        if (onProgress) onProgress(20);
+
+        // 1. container.xml points to the package document (OPF)
+        const containerFile = zip.file('META-INF/container.xml');
+        if (!containerFile) {
+            throw new Error('Die Datei META-INF/container.xml fehlt. Dies ist keine standardkonforme EPUB-Datei.');
+        }
+        const rootfile = elementsByName(parseXml(await containerFile.async('string')), 'rootfile')[0];
+        const opfPath = rootfile?.getAttribute('full-path');
+        const opfFile = opfPath ? zip.file(opfPath) : null;
+        if (!opfPath || !opfFile) {
+            throw new Error('Das Paketdokument (OPF) der EPUB-Datei wurde nicht gefunden.');
+        }
+        const opf = parseXml(await opfFile.async('string'));
+        if (opf.querySelector('parsererror')) {
+            throw new Error('Das Paketdokument (OPF) der EPUB-Datei ist fehlerhaft.');
+        }
+        const opfDir = opfPath.includes('/') ? opfPath.substring(0, opfPath.lastIndexOf('/') + 1) : '';
+
+        // 2. Manifest and spine (reading order); navigation documents are dropped
+        const manifest = new Map<string, { path: string; mediaType: string; properties: string }>();
+        for (const item of elementsByName(opf, 'item')) {
+            manifest.set(item.getAttribute('id') || '', {
+                path: resolveEpubPath(opfDir, item.getAttribute('href') || ''),
+                mediaType: item.getAttribute('media-type') || '',
+                properties: item.getAttribute('properties') || '',
+            });
+        }
+        const spine = elementsByName(opf, 'spine')[0];
+        const ncxId = spine?.getAttribute('toc');
+        const tocPaths = new Set(elementsByName(opf, 'reference')
+            .filter(reference => reference.getAttribute('type') === 'toc')
+            .map(reference => resolveEpubPath(opfDir, reference.getAttribute('href') || '')));
+
+        const contentPaths = elementsByName(opf, 'itemref')
+            .map(itemref => itemref.getAttribute('idref') || '')
+            .filter(idref => idref !== ncxId)
+            .map(idref => manifest.get(idref))
+            .filter((item): item is NonNullable<typeof item> => !!item
+                && /html/.test(item.mediaType)
+                && !/\bnav\b/.test(item.properties)
+                && !tocPaths.has(item.path))
+            .map(item => item.path);
+
+        if (contentPaths.length === 0) {
+            throw new Error('Die EPUB-Datei enthält keine lesbaren Kapitel (leere Lesereihenfolge).');
+        }
+
+        // 3. DRM: encrypted content documents cannot be read
+        const encryptionFile = zip.file('META-INF/encryption.xml');
+        if (encryptionFile) {
+            const encryption = parseXml(await encryptionFile.async('string'));
+            const encryptedPaths = elementsByName(encryption, 'EncryptedData')
+                .filter(data => !EPUB_FONT_OBFUSCATION.includes(elementsByName(data, 'EncryptionMethod')[0]?.getAttribute('Algorithm') || ''))
+                .map(data => elementsByName(data, 'CipherReference')[0]?.getAttribute('URI') || '')
+                .map(uri => resolveEpubPath('', uri));
+            if (contentPaths.some(path => encryptedPaths.includes(path))) {
+                throw new Error('Die EPUB-Datei ist DRM-geschützt (verschlüsselt) und kann nicht gelesen werden.');
+            }
+        }
+        if (onProgress) onProgress(30);
+
+        // 4. Content documents in spine order
+        const chapters: string[] = [];
+        for (let i = 0; i < contentPaths.length; i++) {
+            const contentFile = zip.file(contentPaths[i]);
+            if (!contentFile) {
+                console.warn(`EPUB: Spine document not found: ${contentPaths[i]}`);
+                continue;
+            }
+            const markup = await contentFile.async('string');
+            // Strict XHTML first; named HTML entities (&nbsp;) need the lenient HTML parser
+            let doc = parseXml(markup, 'application/xhtml+xml');
+            if (doc.querySelector('parsererror') || !doc.body) {
+                doc = parseXml(markup, 'text/html');
+            }
+
+            const blocks: { text: string; isChapter: boolean }[] = [];
+            if (doc.body) collectEpubBlocks(doc.body, blocks);
+            // Every spine document starts a new section; h1/h2 headings inside it start chapters too
+            const chapterParts: string[] = [];
+            for (const block of blocks) {
+                if (block.isChapter && chapterParts.length > 0) {
+                    chapters.push(chapterParts.join('\n\n'));
+                    chapterParts.length = 0;
+                }
+                chapterParts.push(block.text);
+            }
+            if (chapterParts.length > 0) chapters.push(chapterParts.join('\n\n'));
+
+            if (onProgress) onProgress(30 + Math.round(((i + 1) / contentPaths.length) * 70));
+            // Yield to main thread to allow UI updates (progress bar) to render
+            if (i % 5 === 4) {
+                await new Promise(resolve => setTimeout(resolve, 0));
+            }
+        }
+
+        const resultText = chapters.join('\n\n\n');
+        if (!resultText.trim()) {
+            throw new Error('Die EPUB-Datei scheint keinen lesbaren Text zu enthalten.');
+        }
+        return resultText;
+
+    } catch (epubError: any) {
+        console.error("EPUB extraction failed:", epubError);
+
+        // Re-throw our own errors, wrap the rest
+        if (epubError.message && (epubError.message.startsWith('Zugriff verweigert') || epubError.message.includes('EPUB'))) {
+            throw epubError;
+        }
+        if (epubError.message && (epubError.message.includes('zip') || epubError.message.includes('Corrupted') || epubError.message.includes('central directory'))) {
+            throw new Error('Die Datei ist keine gültige EPUB-Datei oder ist beschädigt (ZIP-Container Fehler).');
+        }
+        throw new Error(`Fehler beim Lesen der EPUB-Datei: ${epubError.message || 'Unbekannter Fehler'}`);
+    }
+};
+
 const parseTxt = async (file: File, onProgress?: (percent: number) => void): Promise<string> => {
     let arrayBuffer;
     try {
@@ -540,10 +802,12 @@ const parseRtf = (file: File, onProgress?: (percent: number) => void): Promise<s
     });
 };
 
-export const fileParsers: { [key: string]: (file: File, onProgress?: (percent: number) => void) => Promise<string> } = {
+export const fileParsers: { [key: string]: (file: File, onProgress?: (percent: number) => void, onReport?: (report: ExtractionReport) => void, options?: ExtractionOptions) => Promise<string> } = {
     'pdf': parsePdf,
     'docx': parseDocx,
+    'doc': parseDoc,
     'odt': parseOdt,
+    'epub': parseEpub,
     'txt': parseTxt,
     'rtf': parseRtf,
 };
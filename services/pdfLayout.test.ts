@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { PdfLine, PdfPageLayout, PdfTextItem, buildPdfPageLines, reconstructPdfText, removeRunningHeadersFooters } from './pdfLayout';
+
+const PAGE_WIDTH = 600;
+const PAGE_HEIGHT = 800;
+const CHAR_WIDTH = 0.5; // × font size
+
+function item(str: string, x: number, y: number, fontSize = 10, hasEOL = false): PdfTextItem {
+    return { str, transform: [fontSize, 0, 0, fontSize, x, y], width: str.length * fontSize * CHAR_WIDTH, height: fontSize, hasEOL };
+}
+
+function line(text: string, y: number, x = 50, fontSize = 10): PdfLine {
+    return { text, x, y, width: text.length * fontSize * CHAR_WIDTH, fontSize };
+}
+
+const page = (lines: PdfLine[]): PdfPageLayout => ({ lines, width: PAGE_WIDTH, height: PAGE_HEIGHT });
+
+// Pseudo-random word lengths, so the word gaps of consecutive rows do not line up
+const wordLengths = (row: number) => Array.from({ length: 12 }, (_, i) => 3 + ((row * 7 + i * 5) % 9));
+
+/**
+ * One justified row as single-word items: the words are spread to the full text width.
+ */
+function justifiedRow(row: number, y: number, left = 50, right = 550): PdfTextItem[] {
+    const words = wordLengths(row).map((length, i) => String.fromCharCode(97 + ((row + i) % 26)).repeat(length));
+    const textWidth = words.reduce((sum, word) => sum + word.length * 10 * CHAR_WIDTH, 0);
+    const gap = (right - left - textWidth) / (words.length - 1);
+    let x = left;
+    return words.map(word => {
+        const wordItem = item(word, x, y);
+        x += wordItem.width + gap;
+        return wordItem;
+    });
+}
+
+describe('buildPdfPageLines', () => {
+    it('reads two columns one after the other, between a full-width title and footnote', () => {
+        const items: PdfTextItem[] = [item('Über die Stille im Atem und im Raum dazwischen', 100, 780, 14)];
+        // Content stream order: rows of both columns interleaved
+        for (let row = 0; row < 8; row++) {
+            const y = 740 - row * 12;
+            items.push(item(`Links Zeile ${row + 1} mit etwas Text.`.padEnd(40, '.'), 50, y));
+            items.push(item(`Rechts Zeile ${row + 1} mit etwas Text.`.padEnd(40, '.'), 320, y));
+        }
+        items.push(item('1 Fußnote: Eine Anmerkung, die über beide Spalten hinweg läuft und lang ist.', 50, 60, 8));
+
+        const { lines, twoColumns } = buildPdfPageLines(items);
+        const texts = lines.map(pdfLine => pdfLine.text.replace(/\.+$/, '.'));
+
+        expect(twoColumns).toBe(true);
+        expect(texts).toEqual([
+            'Über die Stille im Atem und im Raum dazwischen',
+            ...Array.from({ length: 8 }, (_, row) => `Links Zeile ${row + 1} mit etwas Text.`),
+            ...Array.from({ length: 8 }, (_, row) => `Rechts Zeile ${row + 1} mit etwas Text.`),
+            '1 Fußnote: Eine Anmerkung, die über beide Spalten hinweg läuft und lang ist.',
+        ]);
+        expect(lines.filter(pdfLine => pdfLine.column === 1)).toHaveLength(8);
+    });
+
+    it('keeps justified single-column text as one column', () => {
+        const items: PdfTextItem[] = [];
+        for (let row = 0; row < 14; row++) {
+            const y = 740 - row * 12;
+            // Every fourth row is the short last line of a paragraph
+            items.push(...(row % 4 === 3 ? [item('Ende des Absatzes.', 50, y, 10, true)] : justifiedRow(row, y)));
+        }
+
+        const { lines, twoColumns } = buildPdfPageLines(items);
+
+        expect(twoColumns).toBe(false);
+        expect(lines).toHaveLength(14);
+        expect(lines.every(pdfLine => pdfLine.column === undefined)).toBe(true);
+    });
+});
+
+describe('removeRunningHeadersFooters', () => {
+    const ROMAN = ['i', 'ii', 'iii', 'iv', 'v', 'vi'];
+
+    const bookPages = () => ROMAN.map((roman, i) => page([
+        line(`Die Kunst der Stille ${i + 12}`, 780),
+        ...(i < 1 ? [line('Atme tief ein und lausche.', 770)] : []),
+        line(`Inhalt der Seite ${i + 1}, ein ganz gewöhnlicher Satz.`, 600),
+        line(`— ${roman} —`, 30, 280),
+    ]));
+
+    it('removes headers and footers that differ only by an Arabic or Roman page number', () => {
+        const { pages, removed } = removeRunningHeadersFooters(bookPages());
+
+        expect(removed).toEqual([
+            { text: 'Die Kunst der Stille 12', position: 'header', pages: 6 },
+            { text: '— i —', position: 'footer', pages: 6 },
+        ]);
+        expect(pages[2].lines.map(pdfLine => pdfLine.text)).toEqual(['Inhalt der Seite 3, ein ganz gewöhnlicher Satz.']);
+    });
+
+    it('keeps a body line in the top band that repeats on too few pages', () => {
+        const pages = bookPages();
+        // Same line near the top of a second page: 2 of 6 pages, threshold is 3
+        pages[3].lines.splice(1, 0, line('Atme tief ein und lausche.', 770));
+
+        const result = removeRunningHeadersFooters(pages);
+
+        expect(result.pages[0].lines.map(pdfLine => pdfLine.text)).toContain('Atme tief ein und lausche.');
+        expect(result.pages[3].lines.map(pdfLine => pdfLine.text)).toContain('Atme tief ein und lausche.');
+        expect(result.removed).toHaveLength(2);
+    });
+});
+
+describe('reconstructPdfText', () => {
+    it('keeps a sentence running across a page break in one paragraph', () => {
+        const text = reconstructPdfText([
+            page([
+                line('Der erste Absatz endet hier mit einem Punkt.', 700, 50),
+                line('Der zweite Absatz beginnt mit Einzug und die Stille breitet sich', 688, 70),
+                line('langsam im ganzen Körper aus, bis sie den Atem', 676, 50),
+            ]),
+            page([
+                line('erfüllt und trägt, ohne dass du etwas tun musst.', 700, 50),
+                line('Ein neuer Absatz auf der zweiten Seite.', 688, 70),
+            ]),
+        ]);
+
+        expect(text).toBe([
+            'Der erste Absatz endet hier mit einem Punkt.',
+            '',
+            'Der zweite Absatz beginnt mit Einzug und die Stille breitet sich',
+            'langsam im ganzen Körper aus, bis sie den Atem',
+            'erfüllt und trägt, ohne dass du etwas tun musst.',
+            '',
+            'Ein neuer Absatz auf der zweiten Seite.',
+        ].join('\n'));
+    });
+});
@@ -0,0 +1,366 @@
+import { PdfColumnLayout, RemovedRunningLine } from '../types';
+
+/**
+ * PDF LAYOUT SERVICE
+ *
+ * Rebuilds the text structure that pdf.js only delivers as positioned fragments:
+ * - Two-column pages (x-position clustering around an empty gutter) are read column by column
+ * - Lines from the item positions (transform), hasEOL and the gaps between items
+ * - Paragraphs from vertical gaps, short closing lines and first-line indents
+ * - Headings from a font size clearly above the body text
+ * - Pages are joined; a sentence running over a page break stays one paragraph
+ * - Running headers/footers (and page numbers) repeated across many pages are removed first
+ *
+ * Output: lines separated by "\n", paragraphs and headings by "\n\n" - the
+ * hyphenation joining and the paragraph pauses downstream rely on it.
+ */
+
+// Text item of page.getTextContent() (marked content items have no str)
+export interface PdfTextItem {
+    str: string;
+    transform: number[];   // [scaleX, skewY, skewX, scaleY, x, y]
+    width: number;
+    height: number;
+    hasEOL?: boolean;
+}
+
+export interface PdfLine {
+    text: string;
+    x: number;
+    y: number;             // Baseline, PDF coordinates (grows upwards)
+    width: number;
+    fontSize: number;
+    column?: number;       // 0 = left (or single) column, 1 = right column
+}
+
+export interface PdfPageLayout {
+    lines: PdfLine[];
+    width: number;
+    height: number;
+}
+
+const SAME_LINE_TOLERANCE = 0.5;     // Baseline difference (× font size) still on the same line
+const WORD_GAP = 0.15;               // Horizontal gap (× font size) that separates two words
+const PARAGRAPH_GAP = 1.4;           // Vertical gap (× usual line spacing) that starts a paragraph
+const HEADING_SIZE_RATIO = 1.15;     // Font size (× body size) from which a short line is a heading
+const HEADING_MAX_LENGTH = 120;
+const SHORT_LINE_RATIO = 0.8;        // A line ending a sentence below this share of the text width ends a paragraph
+const INDENT = 1.0;                  // First-line indent (× font size)
+
+const COLUMN_GUTTER_WIDTH = 0.8;     // Minimum empty gutter between two columns (× font size)
+const COLUMN_SEARCH_FROM = 0.3;      // Gutter position searched within this share of the text width...
+const COLUMN_SEARCH_TO = 0.7;
+const COLUMN_MAX_CROSSING = 0.35;    // ...and crossed by at most this share of the rows (full-width titles, abstracts)
+const COLUMN_MIN_SHARE = 0.2;        // Each column carries at least this share of the characters
+const COLUMN_MIN_ROWS = 5;           // Rows each column needs in automatic detection
+
+const RUNNING_LINE_BAND = 0.1;       // Top/bottom share of the page height searched for headers and footers
+const RUNNING_LINE_MIN_SHARE = 0.25; // Share of the pages a line must repeat on (alternating book headers reach ~50%)
+const RUNNING_LINE_MIN_PAGES = 3;
+const RUNNING_LINE_MAX_LENGTH = 150;
+
+const SENTENCE_END_REGEX = /[.!?:…"»«“”)]$/;
+
+function getFontSize(item: PdfTextItem): number {
+    return Math.hypot(item.transform[2], item.transform[3]) || item.height || 1;
+}
+
+const median = (values: number[]) => {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * x position of the gutter between two columns, or null for a single-column page.
+ * Items are grouped into rows; the gutter is the narrow window in the middle of the
+ * text that the fewest rows cross. With layout 'two' the best window is taken as is.
+ */
+function findColumnGutter(items: PdfTextItem[], layout: PdfColumnLayout, fontSize: number, getRowKey: (item: PdfTextItem) => number): { x: number; halfWidth: number } | null {
+    const textItems = items.filter(item => item.str.trim());
+    if (layout === 'single' || textItems.length === 0) return null;
+
+    const left = Math.min(...textItems.map(item => item.transform[4]));
+    const right = Math.max(...textItems.map(item => item.transform[4] + item.width));
+    const halfWidth = fontSize * COLUMN_GUTTER_WIDTH / 2;
+    if (right - left <= halfWidth * 8) return null;
+
+    const rows = new Map<number, [number, number][]>();
+    for (const item of textItems) {
+        const key = getRowKey(item);
+        rows.set(key, [...(rows.get(key) || []), [item.transform[4], item.transform[4] + item.width]]);
+    }
+    const crossingRows = (x: number) => [...rows.values()]
+        .filter(row => row.some(([start, end]) => start < x + halfWidth && end > x - halfWidth)).length;
+
+    // Fewest crossing rows wins, ties go to the window nearest the middle
+    const center = (left + right) / 2;
+    let best: { x: number; crossing: number } | null = null;
+    for (let x = left + (right - left) * COLUMN_SEARCH_FROM; x <= left + (right - left) * COLUMN_SEARCH_TO; x++) {
+        const crossing = crossingRows(x);
+        if (!best || crossing < best.crossing || (crossing === best.crossing && Math.abs(x - center) < Math.abs(best.x - center))) {
+            best = { x, crossing };
+        }
+    }
+    if (!best) return null;
+    if (layout === 'two') return { x: best.x, halfWidth };
+
+    const gutterX = best.x;
+    const sideRows = (side: number) => new Set(textItems
+        .filter(item => side < 0 ? item.transform[4] + item.width <= gutterX - halfWidth : item.transform[4] >= gutterX + halfWidth)
+        .map(getRowKey)).size;
+    const sideChars = (side: number) => textItems
+        .filter(item => side < 0 ? item.transform[4] + item.width <= gutterX - halfWidth : item.transform[4] >= gutterX + halfWidth)
+        .reduce((sum, item) => sum + item.str.length, 0);
+    const totalChars = textItems.reduce((sum, item) => sum + item.str.length, 0);
+
+    const isTwoColumns = best.crossing <= rows.size * COLUMN_MAX_CROSSING
+        && sideRows(-1) >= COLUMN_MIN_ROWS && sideRows(1) >= COLUMN_MIN_ROWS
+        && sideChars(-1) >= totalChars * COLUMN_MIN_SHARE && sideChars(1) >= totalChars * COLUMN_MIN_SHARE;
+    return isTwoColumns ? { x: gutterX, halfWidth } : null;
+}
+
+/**
+ * Lines of a page in reading order. On a two-column page, rows crossing the gutter
+ * (title, abstract, full-width headings) split the page into sections; each section
+ * is read left column first, then right column.
+ */
+export function buildPdfPageLines(items: PdfTextItem[], layout: PdfColumnLayout = 'auto'): { lines: PdfLine[]; twoColumns: boolean } {
+    const fontSize = median(items.filter(item => item.str.trim()).map(getFontSize)) || 10;
+    const getRowKey = (item: PdfTextItem) => Math.round(item.transform[5] / (fontSize * SAME_LINE_TOLERANCE));
+
+    const gutter = findColumnGutter(items, layout, fontSize, getRowKey);
+    if (!gutter) return { lines: buildPdfLines(items), twoColumns: false };
+
+    const crosses = (item: PdfTextItem) => item.str.trim().length > 0
+        && item.transform[4] < gutter.x + gutter.halfWidth && item.transform[4] + item.width > gutter.x - gutter.halfWidth;
+    const spanningRows = new Set(items.filter(crosses).map(getRowKey));
+
+    // Section = number of spanning rows above the item; a spanning row closes the section above it
+    const rowsAbove = (key: number) => [...spanningRows].filter(other => other > key).length;
+    const sections: { left: PdfTextItem[]; right: PdfTextItem[]; span: PdfTextItem[] }[] = [];
+    for (const item of items) {
+        const key = getRowKey(item);
+        const index = rowsAbove(key);
+        const section = sections[index] || (sections[index] = { left: [], right: [], span: [] });
+        if (spanningRows.has(key)) {
+            section.span.push(item);
+        } else {
+            (item.transform[4] < gutter.x ? section.left : section.right).push(item);
+        }
+    }
+
+    const lines: PdfLine[] = [];
+    for (const section of sections.filter(Boolean)) {
+        lines.push(...buildPdfLines(section.left).map(line => ({ ...line, column: 0 })));
+        lines.push(...buildPdfLines(section.right).map(line => ({ ...line, column: 1 })));
+        lines.push(...buildPdfLines(section.span).map(line => ({ ...line, column: 0 })));
+    }
+    return { lines, twoColumns: true };
+}
+
+/**
+ * Groups the items of a page into lines (content stream order, left to right within a line).
+ */
+export function buildPdfLines(items: PdfTextItem[]): PdfLine[] {
+    const lines: PdfLine[] = [];
+    let current: (PdfLine & { end: number }) | null = null;
+    let lineEnded = false;
+
+    for (const item of items) {
+        const fontSize = getFontSize(item);
+        const x = item.transform[4];
+        const y = item.transform[5];
+
+        if (!item.str) {
+            if (item.hasEOL) lineEnded = true;
+            continue;
+        }
+
+        const sameLine = current && !lineEnded
+            && Math.abs(current.y - y) <= Math.max(current.fontSize, fontSize) * SAME_LINE_TOLERANCE
+            && x >= current.x;
+        if (current && sameLine) {
+            const gap = x - current.end;
+            const needsSpace = gap > Math.min(current.fontSize, fontSize) * WORD_GAP && !/\s$/.test(current.text) && !/^\s/.test(item.str);
+            current.text += (needsSpace ? ' ' : '') + item.str;
+            current.end = Math.max(current.end, x + item.width);
+            current.width = current.end - current.x;
+            current.fontSize = Math.max(current.fontSize, fontSize);
+        } else {
+            if (current) lines.push(current);
+            current = { text: item.str, x, y, width: item.width, fontSize, end: x + item.width };
+        }
+        lineEnded = !!item.hasEOL;
+    }
+    if (current) lines.push(current);
+
+    return lines
+        .map(({ text, x, y, width, fontSize }) => ({ text: text.replace(/\s+/g, ' ').trim(), x, y, width, fontSize }))
+        .filter(line => line.text.length > 0);
+}
+
+/**
+ * Comparison key of a header/footer candidate: digits (page numbers, chapter numbers)
+ * and Roman page numbers become "#", case and spacing are ignored.
+ */
+function getRunningLineKey(text: string): string {
+    return text
+        .toLowerCase()
+        .replace(/\b[ivxlc]+\b/g, roman => /^(?=[ivxlc])m*(?:c[md]|d?c{0,3})(?:x[cl]|l?x{0,3})(?:i[xv]|v?i{0,3})$/.test(roman) ? '#' : roman)
+        .replace(/\d+/g, '#')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * Removes running headers and footers: lines in the top or bottom band of the page whose
+ * text (modulo digits) repeats on many pages. Returns the cleaned pages and a report per pattern.
+ */
+export function removeRunningHeadersFooters(pages: PdfPageLayout[]): { pages: PdfPageLayout[]; removed: RemovedRunningLine[] } {
+    const minPages = Math.max(RUNNING_LINE_MIN_PAGES, Math.ceil(pages.length * RUNNING_LINE_MIN_SHARE));
+    if (pages.length < minPages) return { pages, removed: [] };
+
+    const getPosition = (line: PdfLine, page: PdfPageLayout): RemovedRunningLine['position'] | null => {
+        if (line.text.length > RUNNING_LINE_MAX_LENGTH || !page.height) return null;
+        if (line.y >= page.height * (1 - RUNNING_LINE_BAND)) return 'header';
+        if (line.y <= page.height * RUNNING_LINE_BAND) return 'footer';
+        return null;
+    };
+
+    // Pages per pattern (position + key), counted once per page
+    const candidates = new Map<string, RemovedRunningLine>();
+    for (const page of pages) {
+        const seen = new Set<string>();
+        for (const line of page.lines) {
+            const position = getPosition(line, page);
+            if (!position) continue;
+            const id = `${position}|${getRunningLineKey(line.text)}`;
+            if (seen.has(id)) continue;
+            seen.add(id);
+            const candidate = candidates.get(id);
+            if (candidate) {
+                candidate.pages++;
+            } else {
+                candidates.set(id, { text: line.text, position, pages: 1 });
+            }
+        }
+    }
+
+    const running = new Set([...candidates].filter(([, candidate]) => candidate.pages >= minPages).map(([id]) => id));
+    if (running.size === 0) return { pages, removed: [] };
+
+    return {
+        pages: pages.map(page => ({
+            ...page,
+            lines: page.lines.filter(line => {
+                const position = getPosition(line, page);
+                return !position || !running.has(`${position}|${getRunningLineKey(line.text)}`);
+            }),
+        })),
+        removed: [...running].map(id => candidates.get(id)!).sort((a, b) => b.pages - a.pages),
+    };
+}
+
+/**
+ * Body font size of the document: the size carrying the most characters.
+ */
+function getBodyFontSize(pages: PdfPageLayout[]): number {
+    const charsPerSize = new Map<number, number>();
+    for (const line of pages.flatMap(page => page.lines)) {
+        const size = Math.round(line.fontSize * 2) / 2;
+        charsPerSize.set(size, (charsPerSize.get(size) || 0) + line.text.length);
+    }
+    let bodySize = 0;
+    let maxChars = -1;
+    for (const [size, chars] of charsPerSize) {
+        if (chars > maxChars) {
+            bodySize = size;
+            maxChars = chars;
+        }
+    }
+    return bodySize || 10;
+}
+
+function isHeading(line: PdfLine, bodyFontSize: number): boolean {
+    return line.fontSize >= bodyFontSize * HEADING_SIZE_RATIO && line.text.length <= HEADING_MAX_LENGTH;
+}
+
+/**
+ * Paragraphs of one page. Each paragraph is a list of lines.
+ */
+function buildParagraphs(lines: PdfLine[], bodyFontSize: number): { lines: string[]; heading: boolean }[] {
+    const bodyLines = lines.filter(line => !isHeading(line, bodyFontSize));
+    const lineSpacing = median(bodyLines.slice(1)
+        .map((line, i) => bodyLines[i].y - line.y)
+        .filter(gap => gap > 0 && gap < bodyFontSize * 3)) || bodyFontSize * 1.2;
+    // Left edge and width of the text per column
+    const columnLeft = new Map<number, number>();
+    const columnWidth = new Map<number, number>();
+    for (const line of bodyLines) {
+        const column = line.column ?? 0;
+        columnLeft.set(column, Math.min(columnLeft.get(column) ?? line.x, line.x));
+        columnWidth.set(column, Math.max(columnWidth.get(column) ?? 0, line.width));
+    }
+    const textLeft = (line: PdfLine) => columnLeft.get(line.column ?? 0) ?? line.x;
+    const textWidth = (line: PdfLine) => columnWidth.get(line.column ?? 0) ?? line.width;
+
+    const paragraphs: { lines: string[]; heading: boolean }[] = [];
+    let previous: PdfLine | null = null;
+
+    for (const line of lines) {
+        const heading = isHeading(line, bodyFontSize);
+        const last = paragraphs[paragraphs.length - 1];
+
+        let startsParagraph = !previous || !last || heading !== last.heading;
+        if (!startsParagraph && previous && !heading) {
+            const gap = previous.y - line.y;
+            const previousEndsSentence = SENTENCE_END_REGEX.test(previous.text);
+            if ((previous.column ?? 0) !== (line.column ?? 0)) {
+                // A sentence continued in the next column stays in the same paragraph
+                startsParagraph = previousEndsSentence || !/^[\p{Ll}\d,;]/u.test(line.text);
+            } else {
+                startsParagraph =
+                    gap <= 0 ||                                     // Jump upwards (footnote area, unknown column)
+                    gap > lineSpacing * PARAGRAPH_GAP ||
+                    (previousEndsSentence && previous.width < textWidth(previous) * SHORT_LINE_RATIO) ||
+                    (previousEndsSentence && line.x > textLeft(line) + line.fontSize * INDENT);
+            }
+        } else if (!startsParagraph && previous && heading) {
+            // Multi-line heading: same size, directly below
+            startsParagraph = Math.abs(previous.fontSize - line.fontSize) > 0.5 || previous.y - line.y > line.fontSize * 2;
+        }
+
+        if (startsParagraph) {
+            paragraphs.push({ lines: [line.text], heading });
+        } else {
+            last.lines.push(line.text);
+        }
+        previous = line;
+    }
+    return paragraphs;
+}
+
+/**
+ * Text of the whole document with line and paragraph structure.
+ */
+export function reconstructPdfText(pages: PdfPageLayout[]): string {
+    const bodyFontSize = getBodyFontSize(pages);
+    let result = '';
+
+    for (const page of pages) {
+        const paragraphs = buildParagraphs(page.lines, bodyFontSize);
+        paragraphs.forEach((paragraph, i) => {
+            // Headings become one line; body paragraphs keep their lines (for hyphenation joining)
+            const text = paragraph.heading ? paragraph.lines.join(' ') : paragraph.lines.join('\n');
+            if (!result) {
+                result = text;
+                return;
+            }
+            // A sentence continued on the next page stays in the same paragraph
+            const continuesSentence = i === 0 && !paragraph.heading && !SENTENCE_END_REGEX.test(result.trimEnd()) && /^[\p{Ll}\d,;]/u.test(text);
+            result += (continuesSentence ? '\n' : '\n\n') + text;
+        });
+    }
+    return result;
+}
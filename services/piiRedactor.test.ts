@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { createPiiRedactor } from './piiRedactor';
+
+describe('createPiiRedactor', () => {
+    it('redacts IBANs with a valid checksum only', () => {
+        const redactor = createPiiRedactor([]);
+
+        expect(redactor.redact('Konto: DE89 3704 0044 0532 0130 00.')).toBe('Konto: [[PROTECTED_PII_IBAN_0]].');
+        expect(redactor.redact('Referenz DE89370400440532013000')).toBe('Referenz [[PROTECTED_PII_IBAN_1]]');
+        expect(redactor.redact('IBAN GB82 WEST 1234 5698 7654 32')).toBe('IBAN [[PROTECTED_PII_IBAN_2]]');
+        // Wrong check digits: a code of the same shape stays
+        expect(redactor.redact('Bestellnummer GB82 WEST 1234 5698 7654 33')).toBe('Bestellnummer GB82 WEST 1234 5698 7654 33');
+    });
+
+    it('redacts phone numbers with enough digits but no years or page numbers', () => {
+        const redactor = createPiiRedactor([]);
+
+        expect(redactor.redact('Ruf an: +49 30 1234567 oder 030/1234567.')).toBe('Ruf an: [[PROTECTED_PII_PHONE_0]] oder [[PROTECTED_PII_PHONE_1]].');
+        const untouched = 'Im Jahr 2019 (S. 120-135, Kapitel 04) stand die Nummer 030 12 nicht im Buch.';
+        expect(redactor.redact(untouched)).toBe(untouched);
+    });
+
+    it('redacts street addresses with and without postcode', () => {
+        const redactor = createPiiRedactor([]);
+
+        expect(redactor.redact('Sie wohnt in der Musterstraße 12a, 12345 Berlin und arbeitet am Lindenplatz 3.'))
+            .toBe('Sie wohnt in der [[PROTECTED_PII_ADDRESS_0]] und arbeitet am [[PROTECTED_PII_ADDRESS_1]].');
+        expect(redactor.getEntries().map(entry => entry.value)).toEqual(['Musterstraße 12a, 12345 Berlin', 'Lindenplatz 3']);
+    });
+
+    it('keeps the genitive s of a name outside the placeholder', () => {
+        const redactor = createPiiRedactor(['Müller']);
+
+        expect(redactor.redact('Frau Müllers Garten, Herr Müller und die Müllerin.'))
+            .toBe('Frau [[PROTECTED_PII_NAME_0]]s Garten, Herr [[PROTECTED_PII_NAME_0]] und die Müllerin.');
+        expect(redactor.getEntries()).toEqual([{ kind: 'name', value: 'Müller', placeholder: '[[PROTECTED_PII_NAME_0]]', count: 2 }]);
+    });
+
+    it('prefers the e-mail address over a listed name inside it', () => {
+        const redactor = createPiiRedactor(['Schmidt']);
+
+        expect(redactor.redact('Schreib an anna.Schmidt@example.de, Frau Schmidt antwortet.'))
+            .toBe('Schreib an [[PROTECTED_PII_EMAIL_0]], Frau [[PROTECTED_PII_NAME_0]] antwortet.');
+    });
+
+    it('restores placeholders _1 and _10 without mixing them up', () => {
+        const names = ['Adler', 'Becker', 'Conrad', 'Dietrich', 'Engel', 'Fischer', 'Graf', 'Hahn', 'Ingold', 'Jäger', 'Keller'];
+        const redactor = createPiiRedactor(names);
+        const text = names.map(name => `${name} atmet.`).join('\n');
+
+        const redacted = redactor.redact(text);
+
+        expect(redacted).toContain('[[PROTECTED_PII_NAME_1]] atmet.');
+        expect(redacted).toContain('[[PROTECTED_PII_NAME_10]] atmet.');
+        expect(redactor.restore(redacted)).toBe(text);
+    });
+
+    it('leaves nothing for findLeaks after redact', () => {
+        const redactor = createPiiRedactor(['Müller']);
+        const redacted = redactor.redact('Herr Müller, mueller@example.de, +49 30 1234567, Hauptstr. 5, DE89 3704 0044 0532 0130 00');
+
+        expect(redactor.findLeaks(redacted)).toEqual([]);
+        expect(redactor.getEntries().map(entry => entry.kind).sort()).toEqual(['address', 'email', 'iban', 'name', 'phone']);
+    });
+});
@@ -0,0 +1,191 @@
+import { ChunkRedactionLog, CleaningOptions, PiiKind, PiiRedactionEntry } from '../types';
+
+/**
+ * PII REDACTOR SERVICE
+ *
+ * Pseudonymizes personal data before a chunk is sent to a cloud AI and puts it
+ * back into the cleaned output (same idea as protectStageDirections/restoreStageDirections):
+ * - Names from the user's list
+ * - E-mail addresses, phone numbers, IBANs (checksum-validated)
+ * - Street addresses ("Musterstraße 12a", optionally with ", 12345 Ort")
+ *
+ * Every distinct value gets a stable placeholder [[PROTECTED_PII_<KIND>_<n>]] -
+ * the existing placeholder checks (invariantChecker, editOperations) cover it.
+ * The entries form the redaction report: what was replaced and never sent.
+ */
+
+const KIND_TAGS: Record<PiiKind, string> = {
+    name: 'NAME',
+    email: 'EMAIL',
+    phone: 'PHONE',
+    address: 'ADDRESS',
+    iban: 'IBAN',
+};
+
+// Earlier kinds win when matches overlap (an e-mail may contain a name, an IBAN looks like a number)
+const KIND_PRIORITY: PiiKind[] = ['email', 'iban', 'phone', 'address', 'name'];
+
+const EMAIL_REGEX = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+const IBAN_REGEX = /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g;
+// International (+49 / 0049) or national (leading 0) numbers with common separators
+const PHONE_REGEX = /(?:\+|\b00)\d{1,3}[ /.-]?(?:\(0\)[ ]?)?\d{2,5}(?:[ /.-]?\d{2,}){1,4}\b|\b0\d{2,5}(?:[ /.-]?\d{2,}){1,4}\b/g;
+const PHONE_MIN_DIGITS = 7;
+const ADDRESS_REGEX = /\b[\p{Lu}][\p{L}.-]*(?:straße|strasse|str\.|weg|gasse|platz|allee|ring|damm|ufer|chaussee)[ ]+\d{1,4}[ ]?[a-zA-Z]?\b(?:,?[ ]+\d{5}[ ]+[\p{Lu}][\p{L}-]+)?/gu;
+
+interface PiiMatch {
+    kind: PiiKind;
+    start: number;
+    end: number;
+    value: string;
+}
+
+/**
+ * IBAN checksum (ISO 13616, mod 97) - avoids redacting random letter/digit codes.
+ */
+function isValidIban(candidate: string): boolean {
+    const iban = candidate.replace(/ /g, '');
+    if (iban.length < 15 || iban.length > 34) return false;
+    const rearranged = iban.slice(4) + iban.slice(0, 4);
+    let remainder = 0;
+    for (const char of rearranged) {
+        const digits = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+        for (const digit of digits) {
+            remainder = (remainder * 10 + Number(digit)) % 97;
+        }
+    }
+    return remainder === 1;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function findMatches(text: string, names: string[]): PiiMatch[] {
+    const matches: PiiMatch[] = [];
+    const collect = (kind: PiiKind, regex: RegExp, accept: (value: string) => boolean = () => true) => {
+        for (const match of text.matchAll(regex)) {
+            if (accept(match[0])) {
+                matches.push({ kind, start: match.index!, end: match.index! + match[0].length, value: match[0] });
+            }
+        }
+    };
+
+    collect('email', EMAIL_REGEX);
+    collect('iban', IBAN_REGEX, isValidIban);
+    collect('phone', PHONE_REGEX, value => value.replace(/\D/g, '').length >= PHONE_MIN_DIGITS);
+    collect('address', ADDRESS_REGEX);
+    // Whole words only; a genitive "s" stays outside the placeholder ("Müllers" → "[[…]]s")
+    for (const name of names) {
+        collect('name', new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(name)}(?=s?(?![\\p{L}\\p{N}]))`, 'gu'));
+    }
+
+    // Resolve overlaps: priority first, then the longer match
+    matches.sort((a, b) => KIND_PRIORITY.indexOf(a.kind) - KIND_PRIORITY.indexOf(b.kind) || (b.end - b.start) - (a.end - a.start));
+    const accepted: PiiMatch[] = [];
+    for (const match of matches) {
+        if (!accepted.some(other => match.start < other.end && other.start < match.end)) {
+            accepted.push(match);
+        }
+    }
+    return accepted.sort((a, b) => a.start - b.start);
+}
+
+export interface PiiRedactor {
+    redact(text: string): string;
+    restore(text: string): string;
+    getEntries(): PiiRedactionEntry[];
+    // Personal data still detected in the redacted text (should always be empty)
+    findLeaks(redactedText: string): string[];
+}
+
+/**
+ * Creates a redactor for one chunk. Chunk and context share it, so the same value
+ * gets the same placeholder everywhere in the request.
+ */
+export function createPiiRedactor(names: string[]): PiiRedactor {
+    const cleanNames = [...new Set(names.map(name => name.trim()).filter(name => name.length >= 2))];
+    const entries = new Map<string, PiiRedactionEntry>();   // key: kind + value
+    const counters: Record<PiiKind, number> = { name: 0, email: 0, phone: 0, address: 0, iban: 0 };
+
+    const getPlaceholder = (kind: PiiKind, value: string) => {
+        const key = `${kind}:${value}`;
+        let entry = entries.get(key);
+        if (!entry) {
+            entry = { kind, value, placeholder: `[[PROTECTED_PII_${KIND_TAGS[kind]}_${counters[kind]++}]]`, count: 0 };
+            entries.set(key, entry);
+        }
+        entry.count++;
+        return entry.placeholder;
+    };
+
+    return {
+        redact(text) {
+            let result = '';
+            let lastEnd = 0;
+            for (const match of findMatches(text, cleanNames)) {
+                result += text.slice(lastEnd, match.start) + getPlaceholder(match.kind, match.value);
+                lastEnd = match.end;
+            }
+            return result + text.slice(lastEnd);
+        },
+        restore(text) {
+            let restored = text;
+            for (const entry of entries.values()) {
+                restored = restored.split(entry.placeholder).join(entry.value);
+            }
+            return restored;
+        },
+        getEntries() {
+            return [...entries.values()];
+        },
+        findLeaks(redactedText) {
+            return findMatches(redactedText, cleanNames).map(match => match.value);
+        },
+    };
+}
+
+/**
+ * Redaction applies to requests that leave the machine (local servers are not affected).
+ */
+export function isPiiRedactionActive(options: CleaningOptions): boolean {
+    return !!options.piiRedaction?.enabled && options.aiProvider !== 'local';
+}
+
+export const PII_KIND_LABELS: Record<PiiKind, string> = {
+    name: 'Namen',
+    email: 'E-Mail-Adressen',
+    phone: 'Telefonnummern',
+    address: 'Adressen',
+    iban: 'IBANs',
+};
+
+/**
+ * Distinct values and occurrences per kind over all chunks.
+ */
+export function summarizeRedactions(logs: ChunkRedactionLog[]): Record<PiiKind, { values: number; occurrences: number }> {
+    const summary = { name: new Map<string, number>(), email: new Map<string, number>(), phone: new Map<string, number>(), address: new Map<string, number>(), iban: new Map<string, number>() };
+    for (const entry of logs.flatMap(log => log.entries)) {
+        summary[entry.kind].set(entry.value, (summary[entry.kind].get(entry.value) || 0) + entry.count);
+    }
+    return (Object.keys(summary) as PiiKind[]).reduce((result, kind) => ({
+        ...result,
+        [kind]: { values: summary[kind].size, occurrences: [...summary[kind].values()].reduce((sum, count) => sum + count, 0) },
+    }), {} as Record<PiiKind, { values: number; occurrences: number }>);
+}
+
+/**
+ * Redaction report as JSON: which personal data was replaced before each request.
+ * Contains the original values - it is meant for the client, not for the AI provider.
+ */
+export function createRedactionReport(logs: ChunkRedactionLog[], fileName: string): string {
+    return JSON.stringify({
+        format: 'text-aufbereiter-redaction-report',
+        version: 1,
+        createdAt: new Date().toISOString(),
+        fileName,
+        summary: summarizeRedactions(logs),
+        leaks: logs.flatMap(log => log.leaks.map(value => ({ chunkIndex: log.chunkIndex, value }))),
+        chunks: logs.map(log => ({
+            chunkIndex: log.chunkIndex,
+            replaced: log.entries.map(({ kind, placeholder, value, count }) => ({ kind, placeholder, value, count })),
+        })),
+    }, null, 2);
+}
@@ -0,0 +1,39 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { exportPromptTemplate, importPromptTemplate, loadPromptTemplates } from './promptTemplates';
+
+beforeEach(() => {
+    const store = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+        getItem: (key: string) => store.get(key) ?? null,
+        setItem: (key: string, value: string) => store.set(key, value),
+    });
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+const exported = (name: string, texts: string[]) => exportPromptTemplate({
+    id: 'tpl-export',
+    name,
+    mode: 'standard',
+    versions: texts.map((text, i) => ({ version: i + 1, text, createdAt: 1000 + i })),
+});
+
+describe('importPromptTemplate', () => {
+    it('adds versions to the template with the trimmed name', () => {
+        importPromptTemplate(exported('  Hörbuch  ', ['Version A']));
+        const templates = importPromptTemplate(exported('  Hörbuch  ', ['Version A', 'Version B']));
+
+        expect(templates).toHaveLength(1);
+        expect(templates[0].name).toBe('Hörbuch');
+        expect(templates[0].versions.map(version => [version.version, version.text])).toEqual([[1, 'Version A'], [2, 'Version B']]);
+    });
+
+    it('imports a text repeated within one file only once', () => {
+        const templates = importPromptTemplate(exported('Hörbuch', ['Version A', 'Version B', 'Version A']));
+
+        expect(templates[0].versions.map(version => version.text)).toEqual(['Version A', 'Version B']);
+        expect(loadPromptTemplates()).toEqual(templates);
+    });
+});
@@ -0,0 +1,324 @@
+import { CleaningOptions, ProcessingMode, PromptTemplate, PromptTemplateVersion } from '../types';
+import { buildGlossaryInstruction } from './glossary';
+
+/**
+ * PROMPT TEMPLATE SERVICE
+ *
+ * The system prompts for standard and meditation mode are templates with
+ * {{placeholders}} for the fragments that depend on the cleaning options
+ * (chapters, lists, hyphenation ...). Users can edit a template, save it as a
+ * named version in localStorage and share it as a JSON file.
+ *
+ * A placeholder on its own line takes over the indentation of that line;
+ * if its fragment is empty (option off), the whole line is dropped.
+ */
+
+const STORAGE_KEY = 'promptTemplates';
+const EXPORT_FORMAT = 'text-aufbereiter-prompt-template';
+const EXPORT_FORMAT_VERSION = 1;
+
+export interface PlaceholderInfo {
+    name: string;
+    description: string;   // German, shown in the template editor
+}
+
+export const PROMPT_PLACEHOLDERS: Record<ProcessingMode, PlaceholderInfo[]> = {
+    standard: [
+        { name: 'chapters', description: 'Kapitelüberschriften entfernen oder behalten' },
+        { name: 'lists', description: 'Aufzählungen in Prosa umwandeln oder behalten' },
+        { name: 'hyphenation', description: 'Silbentrennung aufheben oder beibehalten' },
+        { name: 'removals', description: 'URLs, E-Mails, Inhaltsverzeichnis, Referenzen (je nach Auswahl)' },
+        { name: 'typography', description: 'Typografie-Korrektur (falls aktiviert)' },
+        { name: 'glossary', description: 'Geschützte Begriffe aus dem Glossar' },
+        { name: 'customInstruction', description: 'Zusätzliche KI-Anweisungen' },
+    ],
+    meditation: [
+        { name: 'hyphenation', description: 'Silbentrennung aufheben (falls aktiviert)' },
+        { name: 'typography', description: 'Leerzeichen und Plenken korrigieren (falls aktiviert)' },
+        { name: 'glossary', description: 'Geschützte Begriffe aus dem Glossar' },
+        { name: 'customInstruction', description: 'Zusätzliche KI-Anweisungen' },
+    ],
+};
+
+export const DEFAULT_STANDARD_TEMPLATE = `Du bist eine strikte Text-Verarbeitungs-Engine. KEINE KI-Persönlichkeit. KEIN Assistent.
+
+=======================================
+NEGATIVE CONSTRAINTS (ABSOLUTES VERBOT):
+=======================================
+❌ ANTWORTE AUSSCHLIESSLICH MIT DEM BEREINIGTEN TEXT.
+❌ KEINE Einleitungen wie "Hier ist der Text", "Hier ist der bereinigte Text", "Gerne".
+❌ KEINE Markdown-Code-Blöcke (\`\`\`).
+❌ KEINE Fett-Schrift (**) oder andere Formatierung.
+❌ KEINE Erklärungen, Kommentare oder Zusammenfassungen.
+❌ Wenn du nichts zu korrigieren hast, gib den Text EXAKT 1:1 zurück.
+=======================================
+
+**Bereinigungs-Logik:**
+- **Entferne Metadaten:** Seitenzahlen, Kopf-/Fußzeilen, Indexeinträge.
+{{chapters}}
+{{lists}}
+{{hyphenation}}
+{{removals}}
+{{typography}}
+{{glossary}}
+{{customInstruction}}
+- **Textfluss:** Korrigiere Umbrüche mitten im Satz.
+- **Absätze:** Genau eine Leerzeile zwischen Absätzen.
+- **Phonetik:** "3.5" -> "3 Punkt 5".
+- **Platzhalter:** [[PROTECTED_...]]-Platzhalter EXAKT unverändert übernehmen.
+`;
+
+export const DEFAULT_MEDITATION_TEMPLATE = `Du bist ein STRIKTER TEXT-TRANSKRIBIERER. Deine EINZIGE Aufgabe ist die TECHNISCHE BEREINIGUNG.
+
+═══════════════════════════════════════════════════════════════════
+                    ZERO-HALLUCINATION POLICY
+═══════════════════════════════════════════════════════════════════
+
+VERBOTEN (ABSOLUT):
+• Ändere NIEMALS den Inhalt oder die Formulierung eines Satzes
+• Füge KEINE Wörter hinzu - nicht ein einziges
+• Entferne KEINE Wörter (außer Seitenzahlen/Metadaten)
+• Schreibe KEINE Sätze um - auch nicht zur "Verbesserung"
+• KEINE Markdown-Formatierung (keine \`\`\`, keine **, keine #)
+• KEINE Einleitungen ("Hier ist...", "Gerne...")
+• KEINE Erklärungen oder Kommentare
+• Füge NIEMALS eigene [PAUSE] Tags hinzu - diese werden VOR der Verarbeitung generiert!
+
+PAUSE-TAGS [PAUSE Xs] SIND HEILIG:
+• Vorhandene [PAUSE 840s] oder ähnliche Tags NIEMALS ändern oder entfernen!
+• Diese Tags wurden bereits korrekt berechnet und eingefügt
+• Beispiel: "[PAUSE 840s]" → bleibt EXAKT so
+
+REGIEANWEISUNGEN SIND HEILIG:
+• Zeilen/Platzhalter wie [[PROTECTED_STAGE_DIRECTION_X]] NIEMALS ändern oder entfernen!
+• Diese Platzhalter werden später durch Originaltext ersetzt
+• Beispiel: "[[PROTECTED_STAGE_DIRECTION_0]]" → bleibt EXAKT so
+
+ERLAUBTE AKTIONEN (NUR DIESE):
+• Seitenzahlen entfernen (freistehende Zahlen auf eigener Zeile)
+• Kopf-/Fußzeilen entfernen
+{{hyphenation}}
+{{typography}}
+{{glossary}}
+{{customInstruction}}
+• "3.5" → "3 Punkt 5" (für TTS)
+• ABKÜRZUNGEN AUSSCHREIBEN (für besseren TTS-Lesefluss):
+  z.B. → zum Beispiel, d.h. → das heißt, ggf. → gegebenenfalls,
+  bzw. → beziehungsweise, etc. → et cetera, ca. → circa,
+  u.a. → unter anderem, u.U. → unter Umständen, o.Ä. → oder Ähnliches,
+  usw. → und so weiter, i.d.R. → in der Regel, v.a. → vor allem,
+  sog. → sogenannt, bzgl. → bezüglich, evtl. → eventuell,
+  inkl. → inklusive, exkl. → exklusive, Nr. → Nummer,
+  vgl. → vergleiche, Dr. → Doktor, Prof. → Professor,
+  Hr. → Herr, Fr. → Frau, Std. → Stunde, zzgl. → zuzüglich,
+  gem. → gemäß, lt. → laut, o.g. → oben genannt,
+  s.u. → siehe unten, s.o. → siehe oben, z.T. → zum Teil
+
+OUTPUT-FORMAT:
+• NUR der bereinigte Text - NICHTS anderes
+• Reiner Text ohne jegliche Formatierung
+• Wenn nichts zu bereinigen ist: Text EXAKT 1:1 zurückgeben
+`;
+
+export function getDefaultTemplate(mode: ProcessingMode): string {
+    return mode === 'meditation' ? DEFAULT_MEDITATION_TEMPLATE : DEFAULT_STANDARD_TEMPLATE;
+}
+
+/**
+ * Prompt fragments for the current options (values of the placeholders).
+ */
+export function buildPromptFragments(options: CleaningOptions): Record<string, string> {
+    const customInstruction = options.customInstruction?.trim() || '';
+
+    if (options.processingMode === 'meditation') {
+        return {
+            hyphenation: options.hyphenationStyle === 'join'
+                ? "- Wörter mit Bindestrich am Zeilenende zusammenfügen (z.B. 'Medi-\\ntation' → 'Meditation')"
+                : '',
+            typography: options.correctTypography
+                ? "- Doppelte Leerzeichen zu einem reduzieren\n- Leerzeichen vor Satzzeichen entfernen (Plenken)"
+                : '',
+            glossary: buildGlossaryInstruction(options),
+            customInstruction: customInstruction ? `- ${customInstruction}` : '',
+        };
+    }
+
+    const removals: string[] = [];
+    if (options.removeUrls) {
+        removals.push("- **Entferne URLs:** Lösche alle Web-Adressen (http/https/www) vollständig.");
+    }
+    if (options.removeEmails) {
+        removals.push("- **Entferne E-Mails:** Lösche alle E-Mail-Adressen vollständig.");
+    }
+    if (options.removeTableOfContents) {
+        removals.push("- **Entferne Inhaltsverzeichnis:** Lösche das Inhaltsverzeichnis am Anfang oder Ende des Dokuments. Behalte jedoch die Kapitelstruktur im Haupttext bei.");
+    }
+    if (options.removeReferences) {
+        removals.push("- **Entferne Referenzen:** Lösche akademische Referenzen, Quellenverweise (z.B. [1], (Autor 2020)) und Fußnotenmarkierungen.");
+    }
+
+    return {
+        chapters: options.chapterStyle === 'remove'
+            ? "- **Entferne Strukturelemente:** Lösche explizite Marker wie 'Kapitel 1', 'Teil II', 'Abschnitt A'. Sich wiederholende Titel oder Überschriften, die auf jeder Seite erscheinen, sind ebenfalls zu entfernen."
+            : "- **Behalte Strukturelemente bei:** Explizite Marker wie 'Kapitel 1', 'Teil II' sollen im Text erhalten bleiben, um die Struktur zu wahren.",
+        lists: options.listStyle === 'prose'
+            ? "- **Behandle Aufzählungen:** Wandle Aufzählungszeichen und nummerierte Listen in fließende Prosa-Sätze um. Beispiel: aus \"- Apfel\n- Birne\" wird \"Apfel und Birne\"."
+            : "- **Behalte Aufzählungen bei:** Formatiere Aufzählungszeichen und nummerierte Listen, aber behalte ihre Listenstruktur bei.",
+        hyphenation: options.hyphenationStyle === 'join'
+            ? "- **Silbentrennung aufheben:** Füge Wörter, die am Zeilenende durch einen Bindestrich getrennt wurden, wieder zu einem Wort zusammen. Beispiel: aus \"Wort-\n-trennung\" wird \"Worttrennung\"."
+            : "- **Silbentrennung beibehalten:** Ändere oder entferne keine Bindestriche, die zur Silbentrennung am Zeilenende verwendet werden.",
+        removals: removals.join('\n'),
+        typography: options.correctTypography
+            ? "- **Typografie:** Korrigiere doppelte Leerzeichen zu einfachen. Stelle sicher, dass Satzzeichen korrekt gesetzt sind (kein Leerzeichen davor, eins danach, keine Leerzeichen vor Satzzeichen aka 'Plenken'). Entferne Leerzeichen innerhalb von Klammern."
+            : '',
+        glossary: buildGlossaryInstruction(options),
+        customInstruction: customInstruction ? `- **Benutzeranweisung:** ${customInstruction}` : '',
+    };
+}
+
+const LINE_PLACEHOLDER_REGEX = /^([ \t]*)\{\{(\w+)\}\}[ \t]*$/;
+const INLINE_PLACEHOLDER_REGEX = /\{\{(\w+)\}\}/g;
+
+/**
+ * Fills the placeholders of a template. Unknown placeholders are left as they are.
+ */
+export function renderPromptTemplate(template: string, fragments: Record<string, string>): string {
+    const lines: string[] = [];
+    for (const line of template.split('\n')) {
+        const match = line.match(LINE_PLACEHOLDER_REGEX);
+        if (match && match[2] in fragments) {
+            const [, indent, name] = match;
+            if (fragments[name]) {
+                lines.push(...fragments[name].split('\n').map(fragmentLine => indent + fragmentLine));
+            }
+            continue;
+        }
+        lines.push(line.replace(INLINE_PLACEHOLDER_REGEX, (placeholder, name: string) => name in fragments ? fragments[name] : placeholder));
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Placeholders in the template that the mode does not know (typos, placeholders of the other mode).
+ */
+export function findUnknownPlaceholders(template: string, mode: ProcessingMode): string[] {
+    const known = new Set(PROMPT_PLACEHOLDERS[mode].map(placeholder => placeholder.name));
+    const unknown = [...template.matchAll(INLINE_PLACEHOLDER_REGEX)].map(match => match[1]).filter(name => !known.has(name));
+    return [...new Set(unknown)];
+}
+
+/**
+ * System prompt for the options: the selected template of the current mode, otherwise the built-in one.
+ */
+export function buildSystemPrompt(options: CleaningOptions): string {
+    const mode: ProcessingMode = options.processingMode || 'standard';
+    const selected = options.promptTemplate;
+    const template = selected && selected.mode === mode ? selected.text : getDefaultTemplate(mode);
+    return renderPromptTemplate(template, buildPromptFragments(options));
+}
+
+// ============================================
+// Stored templates (localStorage)
+// ============================================
+
+export function loadPromptTemplates(): PromptTemplate[] {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        return saved ? JSON.parse(saved) : [];
+    } catch (e) {
+        console.error("Failed to load prompt templates", e);
+        return [];
+    }
+}
+
+function storePromptTemplates(templates: PromptTemplate[]): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+}
+
+export function getLatestVersion(template: PromptTemplate): PromptTemplateVersion {
+    return template.versions[template.versions.length - 1];
+}
+
+const createTemplateId = () => `tpl-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`;
+
+/**
+ * Saves the text as the next version of the named template (created if the name is new).
+ * Returns the updated list.
+ */
+export function savePromptTemplateVersion(name: string, mode: ProcessingMode, text: string, note?: string): PromptTemplate[] {
+    const templates = loadPromptTemplates();
+    const existing = templates.find(template => template.name === name && template.mode === mode);
+    const version: PromptTemplateVersion = {
+        version: existing ? getLatestVersion(existing).version + 1 : 1,
+        text,
+        createdAt: Date.now(),
+        note: note?.trim() || undefined,
+    };
+    const updated = existing
+        ? templates.map(template => template === existing ? { ...template, versions: [...template.versions, version] } : template)
+        : [...templates, { id: createTemplateId(), name, mode, versions: [version] }];
+    storePromptTemplates(updated);
+    return updated;
+}
+
+export function deletePromptTemplate(id: string): PromptTemplate[] {
+    const updated = loadPromptTemplates().filter(template => template.id !== id);
+    storePromptTemplates(updated);
+    return updated;
+}
+
+export function exportPromptTemplate(template: PromptTemplate): string {
+    return JSON.stringify({
+        format: EXPORT_FORMAT,
+        version: EXPORT_FORMAT_VERSION,
+        exportedAt: new Date().toISOString(),
+        template: { name: template.name, mode: template.mode, versions: template.versions },
+    }, null, 2);
+}
+
+/**
+ * Imports an exported template. With the same name and mode, versions whose text
+ * is not known yet are appended as new versions. Throws a German error message.
+ */
+export function importPromptTemplate(json: string): PromptTemplate[] {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(json);
+    } catch {
+        throw new Error("Die Datei ist kein gültiges JSON.");
+    }
+    const imported = parsed?.template;
+    if (parsed?.format !== EXPORT_FORMAT || !imported) {
+        throw new Error("Die Datei ist keine exportierte Prompt-Vorlage.");
+    }
+    if (typeof imported.name !== 'string' || !imported.name.trim()
+        || (imported.mode !== 'standard' && imported.mode !== 'meditation')
+        || !Array.isArray(imported.versions) || imported.versions.length === 0
+        || imported.versions.some((version: any) => typeof version?.text !== 'string')) {
+        throw new Error("Die Prompt-Vorlage ist unvollständig (Name, Modus oder Versionen fehlen).");
+    }
+
+    const name = imported.name.trim();
+    const templates = loadPromptTemplates();
+    const existing = templates.find(template => template.name === name && template.mode === imported.mode);
+    // Texts already stored or imported from this file (a file may repeat a version)
+    const knownTexts = new Set(existing?.versions.map(version => version.text) || []);
+    let nextVersion = existing ? getLatestVersion(existing).version + 1 : 1;
+    const newVersions: PromptTemplateVersion[] = [];
+    for (const version of imported.versions) {
+        if (knownTexts.has(version.text)) continue;
+        knownTexts.add(version.text);
+        newVersions.push({
+            version: nextVersion++,
+            text: version.text,
+            createdAt: typeof version.createdAt === 'number' ? version.createdAt : Date.now(),
+            note: typeof version.note === 'string' ? version.note : undefined,
+        });
+    }
+
+    const updated = existing
+        ? templates.map(template => template === existing ? { ...template, versions: [...template.versions, ...newVersions] } : template)
+        : [...templates, { id: createTemplateId(), name, mode: imported.mode, versions: newVersions }];
+    storePromptTemplates(updated);
+    return updated;
+}
@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRateLimiter } from './rateLimiter';
+
+const limits = { requestsPerMinute: 60, tokensPerMinute: 100000, maxConcurrency: 4 };
+
+beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+});
+
+describe('createRateLimiter', () => {
+    it('slows down once per burst of 429s', () => {
+        const limiter = createRateLimiter(limits);
+
+        limiter.reportRateLimit();
+        limiter.reportRateLimit();
+        limiter.reportRateLimit();
+        expect(limiter.getConcurrency()).toBe(2);
+
+        // A 429 after the cooldown is a new burst
+        vi.advanceTimersByTime(15000);
+        limiter.reportRateLimit();
+        expect(limiter.getConcurrency()).toBe(1);
+    });
+
+    it('holds back requests during the cooldown', async () => {
+        const limiter = createRateLimiter(limits);
+        limiter.reportRateLimit();
+
+        let admitted = false;
+        const request = limiter.acquire(100).then(() => { admitted = true; });
+
+        await vi.advanceTimersByTimeAsync(14000);
+        expect(admitted).toBe(false);
+        await vi.advanceTimersByTimeAsync(3000);
+        await request;
+        expect(admitted).toBe(true);
+    });
+
+    it('recovers after a streak of successes', () => {
+        const limiter = createRateLimiter(limits);
+        limiter.reportRateLimit();
+
+        for (let i = 0; i < 5; i++) limiter.reportSuccess();
+
+        expect(limiter.getConcurrency()).toBe(3);
+    });
+});
@@ -0,0 +1,172 @@
+import { AiProvider } from '../types';
+
+/**
+ * RATE LIMITER SERVICE
+ *
+ * Token bucket per provider for requests/minute and tokens/minute, plus the number
+ * of chunks that may be processed in parallel. Replaces the fixed 2 s "Safety Brake".
+ *
+ * The limits adapt: a 429 reported by the error handling halves rate and
+ * concurrency and pauses new requests for a moment; further reports during that
+ * cooldown belong to the same burst and are ignored. A streak of successful chunks
+ * slowly restores the limits. The state lives per provider for the whole session,
+ * so a later run starts with what the previous one has learned.
+ */
+
+export interface RateLimits {
+    requestsPerMinute: number;   // Infinity = unlimited
+    tokensPerMinute: number;     // Infinity = unlimited
+    maxConcurrency: number;
+}
+
+// Conservative defaults (lowest paid tiers) - 429s adjust them downwards at runtime
+export const PROVIDER_RATE_LIMITS: Record<AiProvider, RateLimits> = {
+    gemini: { requestsPerMinute: 30, tokensPerMinute: 250000, maxConcurrency: 3 },
+    openai: { requestsPerMinute: 60, tokensPerMinute: 30000, maxConcurrency: 3 },
+    qwen: { requestsPerMinute: 60, tokensPerMinute: 100000, maxConcurrency: 3 },
+    grok: { requestsPerMinute: 60, tokensPerMinute: 100000, maxConcurrency: 3 },
+    deepseek: { requestsPerMinute: 60, tokensPerMinute: 200000, maxConcurrency: 4 },
+    // A local server processes one request at a time anyway - parallel requests only queue up there
+    local: { requestsPerMinute: Infinity, tokensPerMinute: Infinity, maxConcurrency: 1 },
+};
+
+const MIN_RATE_FACTOR = 0.1;
+const COOLDOWN_AFTER_RATE_LIMIT_MS = 15000;
+const SUCCESSES_PER_RECOVERY_STEP = 5;
+const MAX_WAIT_STEP_MS = 5000;
+
+export interface RateLimiter {
+    /** Waits until a request with the estimated token count may be sent. */
+    acquire(estimatedTokens: number, signal?: AbortSignal): Promise<void>;
+    /** Number of chunks that may currently be processed in parallel. */
+    getConcurrency(): number;
+    reportSuccess(): void;
+    reportRateLimit(): void;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new Error('Aborted'));
+            return;
+        }
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new Error('Aborted'));
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+export function createRateLimiter(limits: RateLimits): RateLimiter {
+    // Start with a small burst only - a full minute of requests at once would trigger 429s immediately
+    const requestCapacity = Math.max(1, Math.min(limits.requestsPerMinute, limits.maxConcurrency));
+    const tokenCapacity = limits.tokensPerMinute;
+
+    let requestTokens = requestCapacity;
+    let tokenBudget = tokenCapacity;
+    let lastRefill = Date.now();
+    let rateFactor = 1;
+    let concurrency = limits.maxConcurrency;
+    let cooldownUntil = 0;
+    let successStreak = 0;
+
+    const refill = () => {
+        const now = Date.now();
+        const elapsedMinutes = (now - lastRefill) / 60000;
+        lastRefill = now;
+        if (isFinite(limits.requestsPerMinute)) {
+            requestTokens = Math.min(requestCapacity, requestTokens + elapsedMinutes * limits.requestsPerMinute * rateFactor);
+        }
+        if (isFinite(tokenCapacity)) {
+            tokenBudget = Math.min(tokenCapacity, tokenBudget + elapsedMinutes * tokenCapacity * rateFactor);
+        }
+    };
+
+    return {
+        async acquire(estimatedTokens, signal) {
+            // A single chunk larger than the whole minute budget must still get through eventually
+            const neededTokens = Math.min(estimatedTokens, tokenCapacity);
+
+            while (true) {
+                if (signal?.aborted) throw new Error('Aborted');
+                refill();
+
+                const now = Date.now();
+                if (now < cooldownUntil) {
+                    await sleep(Math.min(cooldownUntil - now, MAX_WAIT_STEP_MS), signal);
+                    continue;
+                }
+
+                const hasRequest = !isFinite(limits.requestsPerMinute) || requestTokens >= 1;
+                const hasTokens = !isFinite(tokenCapacity) || tokenBudget >= neededTokens;
+                if (hasRequest && hasTokens) {
+                    if (isFinite(limits.requestsPerMinute)) requestTokens -= 1;
+                    if (isFinite(tokenCapacity)) tokenBudget -= neededTokens;
+                    return;
+                }
+
+                // Wait until the emptier bucket has refilled enough
+                let waitMs = 0;
+                if (!hasRequest) {
+                    waitMs = Math.max(waitMs, (1 - requestTokens) / (limits.requestsPerMinute * rateFactor) * 60000);
+                }
+                if (!hasTokens) {
+                    waitMs = Math.max(waitMs, (neededTokens - tokenBudget) / (tokenCapacity * rateFactor) * 60000);
+                }
+                // Wake up regularly: other requests may have changed the state in the meantime
+                await sleep(Math.max(50, Math.min(Math.ceil(waitMs), MAX_WAIT_STEP_MS)), signal);
+            }
+        },
+
+        getConcurrency() {
+            return concurrency;
+        },
+
+        reportSuccess() {
+            successStreak++;
+            if (successStreak >= SUCCESSES_PER_RECOVERY_STEP && (rateFactor < 1 || concurrency < limits.maxConcurrency)) {
+                successStreak = 0;
+                rateFactor = Math.min(1, rateFactor * 1.5);
+                concurrency = Math.min(limits.maxConcurrency, concurrency + 1);
+            }
+        },
+
+        reportRateLimit() {
+            // Parallel requests of the same burst - already slowed down
+            if (Date.now() < cooldownUntil) return;
+            refill();
+            successStreak = 0;
+            rateFactor = Math.max(MIN_RATE_FACTOR, rateFactor / 2);
+            concurrency = Math.max(1, Math.floor(concurrency / 2));
+            requestTokens = 0;
+            cooldownUntil = Date.now() + COOLDOWN_AFTER_RATE_LIMIT_MS;
+            console.warn(`Rate limit reached - reducing to ${Math.round(rateFactor * 100)}% rate, ${concurrency} parallel request(s).`);
+        },
+    };
+}
+
+const limiters = new Map<AiProvider, RateLimiter>();
+
+/**
+ * Returns the session-wide limiter of a provider.
+ */
+export function getRateLimiter(provider: AiProvider): RateLimiter {
+    let limiter = limiters.get(provider);
+    if (!limiter) {
+        limiter = createRateLimiter(PROVIDER_RATE_LIMITS[provider]);
+        limiters.set(provider, limiter);
+    }
+    return limiter;
+}
+
+/**
+ * Called by the AI error handling whenever a provider answers with 429 / quota exceeded.
+ */
+export function reportRateLimitHit(provider: AiProvider): void {
+    getRateLimiter(provider).reportRateLimit();
+}
@@ -0,0 +1,75 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+
+/**
+ * STUB AI SERVER (tests only)
+ *
+ * Minimal OpenAI-compatible HTTP server on a random local port. Each test sets
+ * the handler; all received requests are recorded with their parsed JSON body.
+ */
+
+export interface StubRequest {
+    method?: string;
+    url?: string;
+    body: any;
+}
+
+export type StubHandler = (request: StubRequest, response: ServerResponse) => void;
+
+export interface StubAiServer {
+    baseUrl: string;               // Including /v1, like the provider configs
+    requests: StubRequest[];
+    setHandler(handler: StubHandler): void;
+    close(): Promise<void>;
+}
+
+export async function startStubAiServer(): Promise<StubAiServer> {
+    const requests: StubRequest[] = [];
+    let handler: StubHandler = (_request, response) => sendError(response, 500, 'No handler');
+
+    const server: Server = createServer((req: IncomingMessage, res: ServerResponse) => {
+        let raw = '';
+        req.on('data', chunk => { raw += chunk; });
+        req.on('end', () => {
+            const request = { method: req.method, url: req.url, body: raw ? JSON.parse(raw) : undefined };
+            requests.push(request);
+            handler(request, res);
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    return {
+        baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`,
+        requests,
+        setHandler: next => { handler = next; },
+        close: () => new Promise(resolve => {
+            server.closeAllConnections();
+            server.close(() => resolve());
+        }),
+    };
+}
+
+// Writes the events as SSE, split at awkward places like a real network stream
+export function sendSse(response: ServerResponse, events: unknown[], raw = '') {
+    response.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    const body = events.map(event => `data: ${JSON.stringify(event)}\n\n`).join('') + raw + 'data: [DONE]\n\n';
+    const middle = Math.floor(body.length / 2);
+    response.write(body.substring(0, middle));
+    setTimeout(() => response.end(body.substring(middle)), 5);
+}
+
+export function sendError(response: ServerResponse, status: number, message: string) {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify({ error: { message, type: 'invalid_request_error' } }));
+}
+
+export const delta = (content: string) => ({ choices: [{ delta: { content } }] });
+
+/**
+ * The document payload of a cleaning request (text between the nonce markers).
+ */
+export function extractPayload(request: StubRequest): string {
+    const userPrompt: string = request.body.messages[request.body.messages.length - 1].content;
+    const match = userPrompt.match(/<<<TEXT ([0-9a-f]+)>>>\n([\s\S]*?)\n<<<ENDE \1>>>/);
+    return match ? match[2] : '';
+}
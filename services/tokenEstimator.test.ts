@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { estimateTokens } from './tokenEstimator';
+
+describe('estimateTokens', () => {
+    it('counts words by length', () => {
+        expect(estimateTokens('')).toBe(0);
+        expect(estimateTokens('Ruhe')).toBe(1);
+        expect(estimateTokens('Atmen')).toBe(2);
+        expect(estimateTokens('Entspannungsübung')).toBe(6); // 17 letters: 1 + 4, plus 0.5 for ü
+    });
+
+    it('adds half a token per umlaut and ß', () => {
+        expect(estimateTokens('Größe')).toBe(3);
+        expect(estimateTokens('Grosse')).toBe(2);
+    });
+
+    it('counts numbers, punctuation and line break runs', () => {
+        expect(estimateTokens('12345')).toBe(2);
+        expect(estimateTokens('Atme tief ein.')).toBe(4);
+        expect(estimateTokens('Eins\n\n\nZwei')).toBe(3);
+    });
+
+    it('estimates German prose above the English rule of thumb', () => {
+        const text = 'Schließe die Augen und spüre, wie sich deine Bauchdecke mit jedem Atemzug hebt und senkt.';
+
+        expect(estimateTokens(text)).toBeGreaterThan(text.length / 4);
+    });
+});
@@ -0,0 +1,46 @@
+/**
+ * TOKEN ESTIMATOR SERVICE
+ *
+ * Approximates the token count of a text without loading a real tokenizer.
+ * The rule of thumb "4 characters = 1 token" is calibrated on English; German
+ * BPE tokenization is noticeably more expensive (long compounds, umlauts,
+ * inflected endings) and averages about 3 characters per token.
+ *
+ * The estimate works per word instead of per character:
+ * - Words: 1 token for up to 4 letters, then 1 token per further 4 letters
+ * - Umlauts and ß: often a separate byte-level token (+0.5 each)
+ * - Numbers: 1 token per 3 digits
+ * - Punctuation and symbols: 1 token each
+ * - Line breaks: 1 token per run of newlines
+ *
+ * A heuristic, not checked against the providers' tokenizers: the rules
+ * round up so chunks rather stay below the output limit of the model.
+ */
+
+const TOKEN_REGEX = /(\p{L}+)|(\p{N}+)|(\n+)|([^\s\p{L}\p{N}])/gu;
+const NON_ASCII_LETTER_REGEX = /[^\x00-\x7F]/g;
+
+function estimateWordTokens(word: string): number {
+    const base = word.length <= 4 ? 1 : 1 + Math.ceil((word.length - 4) / 4);
+    const nonAscii = (word.match(NON_ASCII_LETTER_REGEX) || []).length;
+    return base + nonAscii * 0.5;
+}
+
+/**
+ * Estimated number of tokens of the text.
+ */
+export function estimateTokens(text: string): number {
+    if (!text) return 0;
+
+    let tokens = 0;
+    for (const match of text.matchAll(TOKEN_REGEX)) {
+        if (match[1]) {
+            tokens += estimateWordTokens(match[1]);
+        } else if (match[2]) {
+            tokens += Math.ceil(match[2].length / 3);
+        } else {
+            tokens += 1; // Line break run, punctuation or symbol
+        }
+    }
+    return Math.ceil(tokens);
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { smartSplitText } from './utils';
+import { estimateTokens } from './tokenEstimator';
+import { getChunkTokenLimit, getModelInfo } from './aiProviders';
+import { estimatePromptOverheadTokens } from './geminiService';
+import { CHUNK_SIZE } from '../constants';
+import { CleaningOptions } from '../types';
+
+const options = (contextWindow: number, glossary?: CleaningOptions['glossary']): CleaningOptions => ({
+    chapterStyle: 'keep',
+    listStyle: 'keep',
+    hyphenationStyle: 'keep',
+    aiProvider: 'local',
+    localLlm: { baseUrl: 'http://localhost:11434/v1', model: 'llama3.2:3b', timeoutSeconds: 600, contextWindow, maxOutputTokens: contextWindow / 2 },
+    glossary,
+});
+
+const chunkTokenLimit = (cleaningOptions: CleaningOptions) => getChunkTokenLimit(
+    getModelInfo(cleaningOptions.aiProvider, cleaningOptions.model, cleaningOptions.localLlm),
+    estimatePromptOverheadTokens(cleaningOptions)
+);
+
+const paragraph = 'Schließe die Augen und spüre, wie sich deine Bauchdecke mit jedem Atemzug hebt und senkt. Lass die Gedanken kommen und wieder gehen.';
+const text = Array.from({ length: 40 }, () => paragraph).join('\n\n');
+
+describe('smartSplitText', () => {
+    it('cuts on the token limit of a small-context model', () => {
+        const limit = chunkTokenLimit(options(2048));
+        const chunks = smartSplitText(text, CHUNK_SIZE, limit);
+
+        expect(limit).toBeLessThan(estimateTokens(text.slice(0, CHUNK_SIZE)));
+        expect(chunks.length).toBeGreaterThan(smartSplitText(text, CHUNK_SIZE).length);
+        for (const chunk of chunks) {
+            expect(estimateTokens(chunk)).toBeLessThanOrEqual(limit);
+        }
+        expect(chunks.join('')).toBe(text);
+    });
+
+    it('leaves room for the rendered system prompt', () => {
+        const glossary = Array.from({ length: 60 }, (_, i) => ({ term: `Fachbegriff${i}`, exemptFromRules: true }));
+
+        expect(chunkTokenLimit(options(2048, glossary))).toBeLessThan(chunkTokenLimit(options(2048)));
+        expect(chunkTokenLimit(options(8192))).toBeGreaterThan(chunkTokenLimit(options(2048)));
+    });
+});
@@ -1,5 +1,32 @@
+import { estimateTokens } from './tokenEstimator';
+import { hasKeepRegions, withKeepRegionsProtected } from './keepRegions';
+import { withGlossaryTermsProtected } from './glossary';
 
-export const smartSplitText = (text: string, targetChunkSize: number): string[] => {
+/**
+ * Largest end position (<= maxEnd) so that text[start, end) stays within maxTokens.
+ * Binary search - the token estimate grows monotonically with the length.
+ */
+const findTokenLimitedEnd = (text: string, start: number, maxEnd: number, maxTokens: number): number => {
+    if (estimateTokens(text.substring(start, maxEnd)) <= maxTokens) return maxEnd;
+    let low = start + 1;
+    let high = maxEnd;
+    while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (estimateTokens(text.substring(start, mid)) <= maxTokens) {
+            low = mid;
+        } else {
+            high = mid - 1;
+        }
+    }
+    return low;
+};
+
+/**
+ * Splits text into chunks at paragraph, sentence, line or word boundaries.
+ * targetChunkSize limits the characters per chunk; maxTokens (optional) additionally
+ * limits the estimated input tokens, so the cleaned chunk fits the model's output limit.
+ */
+export const smartSplitText = (text: string, targetChunkSize: number, maxTokens?: number): string[] => {
     if (!text) return [];
 
     // Normalize line endings to \n for consistent processing
@@ -9,17 +36,24 @@ export const smartSplitText = (text: string, targetChunkSize: number): string[]
     let currentPos = 0;
 
     while (currentPos < length) {
+        // Maximum end of this chunk: character limit, then token limit
+        let maxEnd = Math.min(length, currentPos + targetChunkSize);
+        if (maxTokens) {
+            maxEnd = findTokenLimitedEnd(normalizedText, currentPos, maxEnd, maxTokens);
+        }
+
         // If the remaining text fits in one chunk, take it
-        if (length - currentPos <= targetChunkSize) {
+        if (maxEnd >= length) {
             chunks.push(normalizedText.substring(currentPos));
             break;
         }
 
-        let splitPos = currentPos + targetChunkSize;
+        const chunkSize = maxEnd - currentPos;
+        let splitPos = maxEnd;
 
         // Look back window to find a natural break point
         // We search within the last 20% of the chunk or max 2000 chars to maximize chunk usage
-        const lookbackRange = Math.min(2000, targetChunkSize * 0.2);
+        const lookbackRange = Math.min(2000, chunkSize * 0.2);
         const searchEnd = splitPos;
         const searchStart = Math.max(currentPos, searchEnd - lookbackRange);
         const searchWindow = normalizedText.substring(searchStart, searchEnd);
@@ -71,7 +105,7 @@ export const smartSplitText = (text: string, targetChunkSize: number): string[]
 
         // Safety: If for some reason we didn't advance (e.g. massive word), force split at target
         if (splitPos <= currentPos) {
-            splitPos = currentPos + targetChunkSize;
+            splitPos = currentPos + chunkSize;
         }
 
         chunks.push(normalizedText.substring(currentPos, splitPos));
@@ -112,6 +146,8 @@ export const formatEtr = (totalSeconds: number): string => {
  */
 export const sanitizeTextContent = (text: string): string => {
     if (!text) return '';
+    // {{keep}}…{{/keep}} regions pass through verbatim (see keepRegions.ts)
+    if (hasKeepRegions(text)) return withKeepRegionsProtected(text, sanitizeTextContent);
 
     // 1. Normalize to NFC (Canonical Composition)
     let clean = text.normalize('NFC');
@@ -228,13 +264,23 @@ export const sanitizeFileName = (fileName: string): string => {
     return name.trim().substring(0, 200);
 };
 
+/**
+ * SHA-256 hash of a text as hex string (Web Crypto API).
+ * Used as stable key for cached chunks and saved jobs.
+ */
+export const sha256Hex = async (text: string): Promise<string> => {
+    const data = new TextEncoder().encode(text);
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
 export interface AbbreviationRule {
     search: RegExp;
     replacement: string;
     label: string; // The abbreviation itself for display
 }
 
-import { CustomReplacement } from '../types';
+import { CleaningOptions, CustomReplacement, GlossaryTerm } from '../types';
 
 /**
  * PHONETIC MAPPINGS for German TTS
@@ -270,13 +316,18 @@ export const PHONETIC_MAPPINGS: Record<string, string> = {
  * CRITICAL: This function must NOT modify content inside:
  * - [PAUSE Xs] tags
  * - [[PROTECTED_*]] placeholders
+ * - {{keep}}…{{/keep}} regions
+ * - Glossary terms marked as exempt
  * - Any system markers
  *
  * @param text - The text to correct
+ * @param glossary - Protected terms (optional)
  * @returns Text with phonetic corrections applied
  */
-export const applyPhoneticCorrections = (text: string): string => {
+export const applyPhoneticCorrections = (text: string, glossary?: GlossaryTerm[]): string => {
     if (!text) return text;
+    if (hasKeepRegions(text)) return withKeepRegionsProtected(text, unprotected => applyPhoneticCorrections(unprotected, glossary));
+    if (glossary?.length) return withGlossaryTermsProtected(text, glossary, unprotected => applyPhoneticCorrections(unprotected));
 
     let result = text;
 
@@ -322,10 +373,11 @@ export const applyPhoneticCorrections = (text: string): string => {
 
 /**
  * Applies user-defined custom text replacements.
- * Case-insensitive global replacement.
+ * Case-insensitive global replacement. {{keep}}…{{/keep}} regions are not touched.
  */
 export const applyCustomReplacements = (text: string, replacements?: CustomReplacement[]): string => {
     if (!text || !replacements || replacements.length === 0) return text;
+    if (hasKeepRegions(text)) return withKeepRegionsProtected(text, unprotected => applyCustomReplacements(unprotected, replacements));
 
     let result = text;
     for (const { search, replace } of replacements) {
@@ -421,3 +473,37 @@ export const COMMON_ABBREVIATIONS: AbbreviationRule[] = [
     { search: /\bTel\./g, replacement: 'Telefon', label: 'Tel.' },
     { search: /\bStk\./g, replacement: 'Stück', label: 'Stk.' },
 ];
+
+/**
+ * Helper to expand common German abbreviations for better TTS quality.
+ * This is used as a pre-pass before AI or detailed Regex cleaning.
+ * Glossary terms marked as exempt are not expanded.
+ */
+export function expandAbbreviations(text: string, glossary?: GlossaryTerm[]): string {
+    return withGlossaryTermsProtected(text, glossary, unprotected => {
+        let expanded = unprotected;
+
+        // Iterate over the centralized list of abbreviations
+        for (const rule of COMMON_ABBREVIATIONS) {
+            expanded = expanded.replace(rule.search, rule.replacement);
+        }
+
+        return expanded;
+    });
+}
+
+/**
+ * Deterministic pre-pass before sending a chunk to the AI.
+ * In edit mode, the edit operations refer to the lines of this text.
+ * The checks of the AI output (drift, invariants, injection guard) compare against it as well.
+ */
+export function prepareTextForAi(rawText: string, options: CleaningOptions): string {
+    // {{keep}}…{{/keep}} regions are neither replaced nor expanded
+    return withKeepRegionsProtected(rawText, text => {
+        // 0. Custom Replacements
+        const customReplacedText = applyCustomReplacements(text, options.customReplacements);
+
+        // Pre-Pass: Expand Abbreviations before sending to AI
+        return expandAbbreviations(customReplacedText, options.glossary);
+    });
+}
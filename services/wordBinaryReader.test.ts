@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { WordFormatError, extractWordBinaryText, isOle2File } from './wordBinaryReader';
+
+const SECTOR = 512;
+const END_OF_CHAIN = 0xFFFFFFFE;
+
+/**
+ * Builds a minimal Word 97 file: FAT in sector 0, directory in sector 1,
+ * then the WordDocument and 0Table streams (no mini stream, cutoff 0).
+ * The text is stored as one 8-bit piece.
+ */
+function buildDocFile(text: string): ArrayBuffer {
+    const textOffset = 1024;
+    const wordDocument = new Uint8Array(textOffset + text.length);
+    const fib = new DataView(wordDocument.buffer);
+    fib.setUint16(0, 0xA5EC, true);                 // wIdent
+    fib.setUint16(2, 0x00C1, true);                 // nFib (Word 97)
+    fib.setUint16(32, 14, true);                    // csw
+    fib.setUint16(62, 22, true);                    // cslw
+    fib.setUint32(64 + 3 * 4, text.length, true);   // ccpText
+    fib.setUint16(152, 93, true);                   // cbRgFcLcb
+    fib.setUint32(154 + 33 * 8, 0, true);           // fcClx
+    fib.setUint32(154 + 33 * 8 + 4, 21, true);      // lcbClx
+    for (let i = 0; i < text.length; i++) wordDocument[textOffset + i] = text.charCodeAt(i);
+
+    const table = new Uint8Array(21);
+    const clx = new DataView(table.buffer);
+    clx.setUint8(0, 0x02);                          // Pcdt
+    clx.setUint32(1, 16, true);                     // lcb PlcPcd
+    clx.setUint32(5, 0, true);                      // CP 0
+    clx.setUint32(9, text.length, true);            // CP end
+    clx.setUint32(15, (textOffset * 2) | 0x40000000, true); // fc (8-bit piece)
+
+    const sectorsOf = (data: Uint8Array) => Math.ceil(data.length / SECTOR);
+    const wordStart = 2;
+    const tableStart = wordStart + sectorsOf(wordDocument);
+    const totalSectors = tableStart + sectorsOf(table);
+    const file = new Uint8Array(SECTOR * (totalSectors + 1));
+    const view = new DataView(file.buffer);
+
+    file.set([0xD0, 0xCF, 0x11, 0xE0, 0xA1, 0xB1, 0x1A, 0xE1]);
+    view.setUint16(0x1E, 9, true);                  // 512-byte sectors
+    view.setUint16(0x20, 6, true);                  // 64-byte mini sectors
+    view.setUint32(0x2C, 1, true);                  // FAT sectors
+    view.setUint32(0x30, 1, true);                  // Directory start
+    view.setUint32(0x38, 0, true);                  // Mini stream cutoff: all streams regular
+    view.setUint32(0x3C, END_OF_CHAIN, true);
+    view.setUint32(0x44, END_OF_CHAIN, true);
+    for (let i = 0; i < 109; i++) view.setUint32(0x4C + i * 4, i === 0 ? 0 : 0xFFFFFFFF, true);
+
+    const sectorOffset = (sector: number) => (sector + 1) * SECTOR;
+    const fat = (sector: number, next: number) => view.setUint32(sectorOffset(0) + sector * 4, next, true);
+    for (let sector = 0; sector < SECTOR / 4; sector++) fat(sector, 0xFFFFFFFF);
+    fat(0, 0xFFFFFFFD);
+    fat(1, END_OF_CHAIN);
+    const chain = (start: number, count: number) => {
+        for (let i = 0; i < count; i++) fat(start + i, i === count - 1 ? END_OF_CHAIN : start + i + 1);
+    };
+    chain(wordStart, sectorsOf(wordDocument));
+    chain(tableStart, sectorsOf(table));
+    file.set(wordDocument, sectorOffset(wordStart));
+    file.set(table, sectorOffset(tableStart));
+
+    const entry = (index: number, name: string, type: number, start: number, size: number) => {
+        const offset = sectorOffset(1) + index * 128;
+        for (let i = 0; i < name.length; i++) view.setUint16(offset + i * 2, name.charCodeAt(i), true);
+        view.setUint16(offset + 64, (name.length + 1) * 2, true);
+        file[offset + 66] = type;
+        view.setUint32(offset + 116, start, true);
+        view.setUint32(offset + 120, size, true);
+    };
+    entry(0, 'Root Entry', 5, END_OF_CHAIN, 0);
+    entry(1, 'WordDocument', 2, wordStart, wordDocument.length);
+    entry(2, '0Table', 2, tableStart, table.length);
+
+    return file.buffer;
+}
+
+describe('extractWordBinaryText', () => {
+    it('recognizes the OLE2 container', () => {
+        expect(isOle2File(buildDocFile('Text\r'))).toBe(true);
+    });
+
+    it('separates paragraphs by a blank line and keeps manual line breaks', () => {
+        const text = extractWordBinaryText(buildDocFile('Erster Absatz.\rZweiter Absatz,\x0Bneue Zeile.\rDritter Absatz.\r'));
+
+        expect(text.trim()).toBe('Erster Absatz.\n\nZweiter Absatz,\nneue Zeile.\n\nDritter Absatz.');
+    });
+
+    it('maps page and column breaks and drops field codes', () => {
+        const text = extractWordBinaryText(buildDocFile('Links\x0ERechts\r\x0CSeite 2 mit \x13 PAGE \x145\x15 Feld.\r'));
+
+        expect(text.trim()).toBe('Links\nRechts\n\nSeite 2 mit 5 Feld.');
+        expect(text).not.toMatch(/[\x00-\x08\x0B-\x1F]/);
+    });
+
+    it('reports unreadable files with its own error class', () => {
+        const file = buildDocFile('Text\r');
+        new DataView(file).setUint16(3 * SECTOR, 0, true); // wIdent of the WordDocument stream
+
+        expect(() => extractWordBinaryText(file)).toThrow(WordFormatError);
+        expect(() => extractWordBinaryText(new Uint8Array(SECTOR).buffer)).toThrow(WordFormatError);
+    });
+});
@@ -0,0 +1,300 @@
+/**
+ * WORD BINARY READER SERVICE
+ *
+ * Extracts the main text of legacy Word documents (.doc, Word 97-2003) without a
+ * round trip through Word:
+ * 1. OLE2 / Compound File Binary reader (FAT, DIFAT, mini stream, directory)
+ * 2. FIB of the "WordDocument" stream → table stream ("0Table"/"1Table") and ccpText
+ * 3. Piece table (Clx/PlcPcd) → text pieces in CP order, 8-bit (Windows-1252) or UTF-16LE
+ * 4. Control characters → paragraphs and line breaks; field codes dropped, field results kept
+ *
+ * Only the main document is read (no footnotes, headers, comments, text boxes).
+ */
+
+const OLE2_SIGNATURE = [0xD0, 0xCF, 0x11, 0xE0, 0xA1, 0xB1, 0x1A, 0xE1];
+const END_OF_CHAIN = 0xFFFFFFFE;
+const FREE_SECTOR = 0xFFFFFFFF;
+const MAX_REGULAR_SECTOR = 0xFFFFFFFA;
+const HEADER_DIFAT_ENTRIES = 109;
+const DIRECTORY_ENTRY_SIZE = 128;
+const STREAM_OBJECT = 2;
+const ROOT_OBJECT = 5;
+
+const WORD_IDENT = 0xA5EC;
+const FIB_BASE_SIZE = 32;
+const FIB_FLAG_ENCRYPTED = 0x0100;
+const FIB_FLAG_TABLE_1 = 0x0200;
+const NFIB_WORD_97 = 0x00C1;
+const FIB_LW_CCP_TEXT = 3;          // Index of ccpText in fibRgLw
+const FIB_FC_LCB_CLX = 33;          // Index of fcClx/lcbClx in fibRgFcLcb97
+const CLX_PRC = 0x01;
+const CLX_PCDT = 0x02;
+const PCD_SIZE = 8;
+const FC_COMPRESSED_FLAG = 0x40000000;
+const FC_MASK = 0x3FFFFFFF;
+
+/**
+ * Error with a message meant for the user (damaged, encrypted or unsupported file).
+ */
+export class WordFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'WordFormatError';
+    }
+}
+
+export interface CompoundFile {
+    readStream(name: string): Uint8Array | null;
+}
+
+export function isOle2File(buffer: ArrayBuffer): boolean {
+    const bytes = new Uint8Array(buffer, 0, Math.min(buffer.byteLength, OLE2_SIGNATURE.length));
+    return bytes.length === OLE2_SIGNATURE.length && OLE2_SIGNATURE.every((byte, i) => bytes[i] === byte);
+}
+
+/**
+ * Opens an OLE2 compound file. Streams are found by name (case-insensitive, any storage).
+ */
+export function readCompoundFile(buffer: ArrayBuffer): CompoundFile {
+    if (!isOle2File(buffer) || buffer.byteLength < 512) {
+        throw new WordFormatError('Die Datei ist kein gültiges OLE2-Dokument.');
+    }
+    const view = new DataView(buffer);
+    const bytes = new Uint8Array(buffer);
+    const sectorSize = 1 << view.getUint16(0x1E, true);
+    const miniSectorSize = 1 << view.getUint16(0x20, true);
+    const miniStreamCutoff = view.getUint32(0x38, true);
+    const sectorCount = Math.floor((buffer.byteLength - sectorSize) / sectorSize) + 1;
+
+    const sectorOffset = (sector: number) => (sector + 1) * sectorSize;
+
+    // Little-endian sector numbers of a FAT or mini FAT
+    const toSectorTable = (data: Uint8Array): Uint32Array => {
+        const dataView = new DataView(data.buffer, data.byteOffset, data.byteLength);
+        const table = new Uint32Array(Math.floor(data.length / 4));
+        for (let i = 0; i < table.length; i++) {
+            table[i] = dataView.getUint32(i * 4, true);
+        }
+        return table;
+    };
+
+    // Follows a sector chain; a loop or a sector outside the file means the file is damaged
+    const followChain = (table: Uint32Array, start: number, limit: number): number[] => {
+        const chain: number[] = [];
+        const seen = new Set<number>();
+        for (let sector = start; sector !== END_OF_CHAIN && sector !== FREE_SECTOR; sector = table[sector]) {
+            if (sector > MAX_REGULAR_SECTOR || sector >= limit || seen.has(sector)) {
+                throw new WordFormatError('Die OLE2-Struktur der Datei ist beschädigt (ungültige Sektorkette).');
+            }
+            seen.add(sector);
+            chain.push(sector);
+        }
+        return chain;
+    };
+
+    // FAT sectors: 109 in the header, the rest in the DIFAT chain
+    const fatSectors: number[] = [];
+    for (let i = 0; i < HEADER_DIFAT_ENTRIES; i++) {
+        const sector = view.getUint32(0x4C + i * 4, true);
+        if (sector <= MAX_REGULAR_SECTOR) fatSectors.push(sector);
+    }
+    const entriesPerSector = sectorSize / 4;
+    let difatSector = view.getUint32(0x44, true);
+    for (let n = view.getUint32(0x48, true); n > 0 && difatSector <= MAX_REGULAR_SECTOR && difatSector < sectorCount; n--) {
+        const offset = sectorOffset(difatSector);
+        for (let i = 0; i < entriesPerSector - 1; i++) {
+            const sector = view.getUint32(offset + i * 4, true);
+            if (sector <= MAX_REGULAR_SECTOR) fatSectors.push(sector);
+        }
+        difatSector = view.getUint32(offset + (entriesPerSector - 1) * 4, true);
+    }
+
+    const fatData = new Uint8Array(fatSectors.length * sectorSize);
+    fatSectors.forEach((sector, i) => {
+        const offset = sectorOffset(sector);
+        fatData.set(bytes.subarray(offset, Math.min(offset + sectorSize, buffer.byteLength)), i * sectorSize);
+    });
+    const fat = toSectorTable(fatData);
+
+    const readChain = (start: number, size: number): Uint8Array => {
+        const result = new Uint8Array(size);
+        let written = 0;
+        for (const sector of followChain(fat, start, sectorCount)) {
+            if (written >= size) break;
+            const offset = sectorOffset(sector);
+            const length = Math.min(sectorSize, size - written, buffer.byteLength - offset);
+            result.set(bytes.subarray(offset, offset + length), written);
+            written += length;
+        }
+        return result;
+    };
+
+    // Directory: 128-byte entries in the directory sector chain
+    const directoryStart = view.getUint32(0x30, true);
+    const directoryData = readChain(directoryStart, followChain(fat, directoryStart, sectorCount).length * sectorSize);
+    const directoryView = new DataView(directoryData.buffer);
+    const entries: { name: string; type: number; start: number; size: number }[] = [];
+    for (let offset = 0; offset + DIRECTORY_ENTRY_SIZE <= directoryData.length; offset += DIRECTORY_ENTRY_SIZE) {
+        const nameLength = Math.min(directoryView.getUint16(offset + 64, true), 64);
+        const name = new TextDecoder('utf-16le').decode(directoryData.subarray(offset, offset + Math.max(0, nameLength - 2)));
+        entries.push({
+            name,
+            type: directoryData[offset + 66],
+            start: directoryView.getUint32(offset + 116, true),
+            size: directoryView.getUint32(offset + 120, true),   // High 32 bits are 0 for streams of this size
+        });
+    }
+
+    const root = entries.find(entry => entry.type === ROOT_OBJECT);
+    if (!root) {
+        throw new WordFormatError('Die OLE2-Struktur der Datei ist beschädigt (kein Stammverzeichnis).');
+    }
+
+    // Mini stream: small streams live in 64-byte sectors inside the root entry's stream
+    let miniFat: Uint32Array | null = null;
+    let miniStream: Uint8Array | null = null;
+    const loadMiniStream = () => {
+        if (miniFat && miniStream) return;
+        const miniFatStart = view.getUint32(0x3C, true);
+        const miniFatSectors = miniFatStart <= MAX_REGULAR_SECTOR ? followChain(fat, miniFatStart, sectorCount).length : 0;
+        miniFat = toSectorTable(readChain(miniFatStart, miniFatSectors * sectorSize));
+        miniStream = readChain(root.start, root.size);
+    };
+
+    const readMiniChain = (start: number, size: number): Uint8Array => {
+        loadMiniStream();
+        const result = new Uint8Array(size);
+        let written = 0;
+        for (const sector of followChain(miniFat!, start, Math.ceil(miniStream!.length / miniSectorSize))) {
+            if (written >= size) break;
+            const offset = sector * miniSectorSize;
+            const length = Math.min(miniSectorSize, size - written);
+            result.set(miniStream!.subarray(offset, offset + length), written);
+            written += length;
+        }
+        return result;
+    };
+
+    return {
+        readStream(name) {
+            const entry = entries.find(e => e.type === STREAM_OBJECT && e.name.toLowerCase() === name.toLowerCase());
+            if (!entry) return null;
+            return entry.size < miniStreamCutoff ? readMiniChain(entry.start, entry.size) : readChain(entry.start, entry.size);
+        },
+    };
+}
+
+/**
+ * Maps Word's control characters to plain text. Field codes (between 0x13 and 0x14) are
+ * dropped, field results (between 0x14 and 0x15) are kept - also for nested fields.
+ */
+function convertWordText(raw: string): string {
+    const fieldStack: ('code' | 'result')[] = [];
+    let result = '';
+    for (const char of raw) {
+        switch (char) {
+            case '\x13': fieldStack.push('code'); continue;
+            case '\x14': if (fieldStack.length) fieldStack[fieldStack.length - 1] = 'result'; continue;
+            case '\x15': fieldStack.pop(); continue;
+        }
+        if (fieldStack.includes('code')) continue;
+
+        switch (char) {
+            case '\r':                      // Paragraph mark
+            case '\x0C':                    // Page / section break
+                result += '\n\n';
+                break;
+            case '\x0B':                    // Manual line break
+            case '\x0E':                    // Column break
+                result += '\n';
+                break;
+            case '\x07':                    // Table cell / row mark
+                result += '\t';
+                break;
+            case '\x1E':                    // Non-breaking hyphen
+                result += '-';
+                break;
+            case '\x1F':                    // Optional hyphen
+            case '\x01':                    // Picture
+            case '\x02':                    // Footnote reference
+            case '\x05':                    // Comment reference
+            case '\x08':                    // Drawing object
+                break;
+            default:
+                result += char;
+        }
+    }
+    // Paragraphs are separated by a blank line (like the other parsers); cell marks at the end of a row become one line per row
+    return result.replace(/\t+\n/g, '\n').replace(/\t{2,}/g, '\n').replace(/\n{3,}/g, '\n\n');
+}
+
+/**
+ * Main document text of a Word 97-2003 file.
+ */
+export function extractWordBinaryText(buffer: ArrayBuffer): string {
+    const compoundFile = readCompoundFile(buffer);
+    const wordDocument = compoundFile.readStream('WordDocument');
+    if (!wordDocument || wordDocument.length < FIB_BASE_SIZE + 2) {
+        throw new WordFormatError('Die Datei enthält keinen Word-Dokumentinhalt (WordDocument-Stream fehlt).');
+    }
+    const fib = new DataView(wordDocument.buffer, wordDocument.byteOffset, wordDocument.byteLength);
+    if (fib.getUint16(0, true) !== WORD_IDENT) {
+        throw new WordFormatError('Die Datei ist kein Word-Dokument (ungültige Kennung).');
+    }
+    if (fib.getUint16(2, true) < NFIB_WORD_97) {
+        throw new WordFormatError('Word-Dateien vor Word 97 (Word 6.0/95) werden nicht unterstützt. Bitte speichern Sie die Datei als .docx.');
+    }
+    const flags = fib.getUint16(0x0A, true);
+    if (flags & FIB_FLAG_ENCRYPTED) {
+        throw new WordFormatError('Die Word-Datei ist passwortgeschützt (Verschlüsselung). Bitte entfernen Sie das Passwort in Word und laden Sie sie erneut hoch.');
+    }
+
+    // FIB: FibBase, csw + fibRgW, cslw + fibRgLw, cbRgFcLcb + fibRgFcLcb
+    const csw = fib.getUint16(FIB_BASE_SIZE, true);
+    const rgLwOffset = FIB_BASE_SIZE + 2 + csw * 2 + 2;
+    const cslw = fib.getUint16(rgLwOffset - 2, true);
+    const rgFcLcbOffset = rgLwOffset + cslw * 4 + 2;
+    const ccpText = fib.getUint32(rgLwOffset + FIB_LW_CCP_TEXT * 4, true);
+    const fcClx = fib.getUint32(rgFcLcbOffset + FIB_FC_LCB_CLX * 8, true);
+    const lcbClx = fib.getUint32(rgFcLcbOffset + FIB_FC_LCB_CLX * 8 + 4, true);
+
+    const table = compoundFile.readStream(flags & FIB_FLAG_TABLE_1 ? '1Table' : '0Table');
+    if (!table || lcbClx === 0 || fcClx + lcbClx > table.length) {
+        throw new WordFormatError('Die Word-Datei ist beschädigt (Textverzeichnis nicht gefunden).');
+    }
+    const clx = new DataView(table.buffer, table.byteOffset + fcClx, lcbClx);
+
+    // Clx: skip the Prc entries (formatting), then the Pcdt with the piece table
+    let offset = 0;
+    while (offset < lcbClx && clx.getUint8(offset) === CLX_PRC) {
+        offset += 3 + clx.getInt16(offset + 1, true);
+    }
+    if (offset >= lcbClx || clx.getUint8(offset) !== CLX_PCDT) {
+        throw new WordFormatError('Die Word-Datei ist beschädigt (Stückliste des Textes fehlt).');
+    }
+    const lcbPlcPcd = clx.getUint32(offset + 1, true);
+    const plcOffset = offset + 5;
+    const pieceCount = (lcbPlcPcd - 4) / (4 + PCD_SIZE);
+
+    const cp1252 = new TextDecoder('windows-1252');
+    const utf16 = new TextDecoder('utf-16le');
+    let raw = '';
+    for (let i = 0; i < pieceCount; i++) {
+        const cpStart = clx.getUint32(plcOffset + i * 4, true);
+        if (cpStart >= ccpText) break;
+        const cpEnd = Math.min(clx.getUint32(plcOffset + (i + 1) * 4, true), ccpText);
+        const pcdOffset = plcOffset + (pieceCount + 1) * 4 + i * PCD_SIZE;
+        const fcValue = clx.getUint32(pcdOffset + 2, true);
+        const length = cpEnd - cpStart;
+
+        if (fcValue & FC_COMPRESSED_FLAG) {
+            // 8-bit piece: byte offset is fc / 2
+            const start = (fcValue & FC_MASK) / 2;
+            raw += cp1252.decode(wordDocument.subarray(start, start + length));
+        } else {
+            raw += utf16.decode(wordDocument.subarray(fcValue, fcValue + length * 2));
+        }
+    }
+
+    return convertWordText(raw);
+}
@@ -8,7 +8,26 @@ export enum AppState {
   ERROR = 'ERROR',
 }
 
-export type AiProvider = 'gemini' | 'openai' | 'qwen' | 'grok' | 'deepseek';
+export type AiProvider = 'gemini' | 'openai' | 'qwen' | 'grok' | 'deepseek' | 'local';
+
+// Entry of the per-provider model catalogue (services/aiProviders.ts)
+export interface ModelInfo {
+  id: string;                    // Model id as expected by the API
+  name: string;                  // Display name
+  contextWindow: number;         // Tokens (prompt + answer)
+  maxOutputTokens: number;
+  inputPricePer1M: number;       // USD per 1M input tokens
+  outputPricePer1M: number;      // USD per 1M output tokens
+}
+
+// Local LLM server with OpenAI-compatible API (Ollama, llama.cpp server, LM Studio)
+export interface LocalLlmSettings {
+  baseUrl: string;               // e.g. http://localhost:11434/v1
+  model: string;                 // e.g. llama3.1:8b
+  timeoutSeconds: number;        // Watchdog timeout per chunk (CPU inference is slow)
+  contextWindow?: number;        // Tokens the server is started with (Ollama: num_ctx); default: catalogue entry
+  maxOutputTokens?: number;      // Default: catalogue entry
+}
 
 export type ProcessingMode = 'standard' | 'meditation';
 
@@ -17,6 +36,13 @@ export interface CustomReplacement {
   replace: string;
 }
 
+// Protected term (services/glossary.ts): matched case-sensitively as a whole word
+export interface GlossaryTerm {
+  term: string;
+  preferred?: string;               // Spelling the result must use (default: term itself)
+  exemptFromRules: boolean;         // Not expanded as an abbreviation, not changed by phonetic corrections
+}
+
 export interface PauseConfiguration {
   pauseAfterParagraph: boolean;
   pauseAfterParagraphDuration: number; // in seconds
@@ -37,6 +63,8 @@ export interface CleaningOptions {
   listStyle: 'prose' | 'keep';
   hyphenationStyle: 'join' | 'keep';
   aiProvider: AiProvider;
+  model?: string;                // Model id from the catalogue (default: first entry of the provider)
+  localLlm?: LocalLlmSettings;   // Only used when aiProvider === 'local'
   removeUrls?: boolean;
   removeEmails?: boolean;
   removeTableOfContents?: boolean;
@@ -47,6 +75,187 @@ export interface CleaningOptions {
   customInstruction?: string;
   pauseConfig?: PauseConfiguration; // Optional pause injection settings
   processingMode?: ProcessingMode;  // Standard Audiobook vs. Meditation Mode (default: 'standard')
+  driftThreshold?: number;          // Max. allowed word-level drift of AI output (0..1, default: DRIFT_THRESHOLD)
+  outputMode?: OutputMode;          // How the AI returns a chunk (default: 'fulltext')
+  hybridMode?: boolean;             // Clean offline first, send only messy chunks to the AI (services/messScore.ts)
+  messThreshold?: number;           // Min. mess score (0..1) for a chunk to go to the AI (default: MESS_THRESHOLD)
+  budgetCents?: number;             // Cost limit per run in US cents (0/undefined = no limit)
+  auditLog?: boolean;               // Record prompts and raw responses per chunk (opt-in, services/auditLog.ts)
+  promptTemplate?: SelectedPromptTemplate; // User template for the system prompt (default: built-in template of the mode)
+  piiRedaction?: PiiRedactionSettings;     // Pseudonymize personal data before cloud AI requests (services/piiRedactor.ts)
+  glossary?: GlossaryTerm[];        // Protected terms: prompt instruction, rule exemption, check after each chunk
+}
+
+export interface PiiRedactionSettings {
+  enabled: boolean;
+  names: string[];                  // Names to pseudonymize (e-mails, phone numbers, addresses, IBANs are detected)
+}
+
+export type PiiKind = 'name' | 'email' | 'phone' | 'address' | 'iban';
+
+export interface PiiRedactionEntry {
+  kind: PiiKind;
+  value: string;                    // Original value (stays in the browser)
+  placeholder: string;              // What the AI saw instead, e.g. [[PROTECTED_PII_EMAIL_0]]
+  count: number;                    // Occurrences in the request (chunk and context)
+}
+
+export interface ChunkRedactionLog {
+  chunkIndex: number;
+  entries: PiiRedactionEntry[];
+  leaks: string[];                  // Personal data still detected in the sent text (should be empty)
+}
+
+// Versioned system prompt templates, stored in localStorage (services/promptTemplates.ts)
+export interface PromptTemplateVersion {
+  version: number;                  // 1, 2, 3 ... per template
+  text: string;                     // Template with {{placeholders}}
+  createdAt: number;
+  note?: string;                    // What changed in this version
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  mode: ProcessingMode;             // Templates are written for one processing mode
+  versions: PromptTemplateVersion[];
+}
+
+// The template version used for a run (copied into the options, so resumed jobs keep their prompt)
+export interface SelectedPromptTemplate {
+  name: string;
+  mode: ProcessingMode;
+  version: number;
+  text: string;
+}
+
+// 'fulltext': the AI returns the whole cleaned chunk; 'edits': only a JSON list of edit operations (services/editOperations.ts)
+export type OutputMode = 'fulltext' | 'edits';
+
+// Edit operations against the numbered lines of a chunk (1-based, offsets within the line)
+export type EditOperation =
+  | { op: 'delete'; fromLine: number; toLine: number }
+  | { op: 'replace'; line: number; start: number; end: number; text: string; replacement: string }
+  | { op: 'join'; line: number };
+
+export interface AppliedEdit {
+  op: EditOperation['op'];
+  line: number;
+  before: string;                   // Original text the operation touched
+  after: string;                    // Text after the operation
+  rejectedReason?: string;          // Set if the operation was not applied
+}
+
+export interface ChunkEditLog {
+  chunkIndex: number;
+  excerpt: string;
+  edits: AppliedEdit[];
+}
+
+// Problems detected by the watchdog while processing a chunk
+export type ChunkWarningKind = 'drift' | 'error' | 'injection';
+
+export interface ChunkWarning {
+  kind: ChunkWarningKind;
+  message: string;                  // Human-readable description (German, shown in ResultView)
+  resolution: 'retry' | 'fallback'; // Result came from the AI retry or from the offline fallback
+  similarity?: number;              // Word-level similarity of the rejected AI output (drift only)
+}
+
+// Chunk cache statistics of the current run (services/chunkCache.ts)
+export interface CacheStats {
+  hits: number;
+  savedTokens: number;
+}
+
+// Content that must survive AI cleaning (see services/invariantChecker.ts)
+export interface InvariantViolation {
+  kind: 'number' | 'name' | 'pause' | 'placeholder' | 'glossary';
+  value: string;                    // The missing number / word / tag / glossary term
+}
+
+export interface ChunkInvariantReport {
+  chunkIndex: number;               // 0-based chunk number
+  excerpt: string;                  // Start of the final chunk text (used to locate it in the result)
+  violations: InvariantViolation[];
+}
+
+export interface SuspiciousChunk extends ChunkWarning {
+  chunkIndex: number;               // 0-based chunk number
+  excerpt: string;                  // Start of the final chunk text (used to locate it in the result)
+}
+
+// One AI attempt of the watchdog for a chunk (audit log)
+export interface ChunkAuditAttempt {
+  attempt: number;                  // 1 = first try, 2 = watchdog retry
+  startedAt: number;
+  durationMs: number;
+  systemPrompt: string;
+  userPrompt: string;
+  rawResponse: string;              // Streamed answer exactly as received
+  cleanedResponse?: string;         // After cleanAiResponse (edit mode: after applying the operations)
+  apiRetries: string[];             // Transient API errors that were retried with backoff
+  error?: string;                   // Why the attempt failed (timeout, drift, API error ...)
+}
+
+export interface ChunkAuditRecord {
+  chunkIndex: number;               // 0-based chunk number
+  source: 'ai' | 'cache' | 'offline'; // 'offline': hybrid mode sent the chunk to the regex pipeline only
+  startedAt: number;
+  durationMs: number;
+  attempts: ChunkAuditAttempt[];
+  fallbackReason?: string;          // Set if the watchdog fell back to offline cleaning
+  output: string;                   // Final chunk text
+}
+
+// Audit log of the current run (kept in memory only, downloaded as JSON from ResultView)
+export interface AuditLog {
+  startedAt: number;
+  options: CleaningOptions;
+  records: ChunkAuditRecord[];
+}
+
+// Running cleaning job, persisted after every chunk so it can be resumed (services/jobStore.ts)
+export interface CleaningJob {
+  fileName: string;
+  rawText: string;                  // Needed to resume after a reload
+  rawTextHash: string;              // SHA-256 of rawText (matches the job to the loaded document)
+  options: CleaningOptions;
+  chunkSize: number;                // smartSplitText must produce the same chunks on resume
+  chunkTokens?: number;             // Token limit per chunk (missing in jobs saved before token-based chunking)
+  totalChunks: number;
+  chunkOutputs: string[];           // Cleaned text of every finished chunk, in order
+  tokenUsage: TokenUsage;
+  suspiciousChunks: SuspiciousChunk[];
+  invariantReports: ChunkInvariantReport[];
+  editLogs?: ChunkEditLog[];        // Only in outputMode 'edits'
+  redactionLogs?: ChunkRedactionLog[]; // Only with PII redaction
+  updatedAt: number;
+}
+
+// Set while a run is paused because it would exceed its budget (services/costTracker.ts)
+export interface BudgetPauseInfo {
+  budgetCents: number;
+  actualCents: number;              // Cost of this run so far
+  projectedCents: number;           // Estimated cost of the whole run
+}
+
+// One finished, aborted or failed run in the persisted cost ledger
+export interface CostLedgerEntry {
+  date: number;
+  fileName: string;
+  provider: AiProvider;
+  model: string;
+  tokenUsage: TokenUsage;
+  costUsd: number;
+  status: 'completed' | 'aborted' | 'error';
+}
+
+// Result of a run that was aborted with "Teilergebnis behalten"
+export interface PartialResultInfo {
+  processedChunks: number;
+  totalChunks: number;
+  remainder: 'raw' | 'omitted';     // Unprocessed rest appended as raw text or left out
 }
 
 export type SummaryState = 'IDLE' | 'LOADING' | 'SUCCESS' | 'ERROR';
@@ -56,6 +265,12 @@ export interface DetailedAction {
   description: string;
 }
 
+// Read-only neighbourhood of a chunk, sent along so the AI can repair cuts at the chunk edges
+export interface ChunkContext {
+  before: string;   // Tail of the previous chunk
+  after: string;    // Head of the next chunk
+}
+
 export interface TokenUsage {
   prompt: number;
   output: number;
@@ -69,6 +284,34 @@ export interface ResultViewProps {
   summary: DetailedAction[];
   summaryState: SummaryState;
   onTextChange?: (text: string) => void;
+  suspiciousChunks?: SuspiciousChunk[];
+  invariantReports?: ChunkInvariantReport[];
+  editLogs?: ChunkEditLog[];
+  redactionLogs?: ChunkRedactionLog[];
+  partialResult?: PartialResultInfo | null;
+  auditLog?: AuditLog | null;
+}
+
+// Running header/footer removed from a PDF during extraction
+export interface RemovedRunningLine {
+  text: string;                         // Example as found on the first page
+  position: 'header' | 'footer';
+  pages: number;                        // Number of pages it was removed from
+}
+
+// What the parser changed beyond plain extraction (shown in the diagnostics panel)
+export interface ExtractionReport {
+  removedRunningLines: RemovedRunningLine[];
+  twoColumnPages: number;               // PDF pages read column by column
+  columnLayout: PdfColumnLayout;        // Column setting the document was read with
+}
+
+// Column layout of a PDF: detected per page, or forced for the whole document
+export type PdfColumnLayout = 'auto' | 'single' | 'two';
+
+// Settings of the extraction step, chosen per document before upload
+export interface ExtractionOptions {
+  pdfColumns: PdfColumnLayout;
 }
 
 // New types for useReducer state management
@@ -85,6 +328,15 @@ export interface AppStateShape {
   summaryState: SummaryState;
   cleaningSummary: DetailedAction[];
   tokenUsage: TokenUsage;
+  suspiciousChunks: SuspiciousChunk[];  // Chunks flagged by the watchdog (drift etc.)
+  invariantReports: ChunkInvariantReport[]; // Chunks whose AI output lost numbers, names or tags
+  editLogs: ChunkEditLog[];             // Edit operations per chunk (outputMode 'edits')
+  redactionLogs: ChunkRedactionLog[];   // Pseudonymized personal data per chunk (PII redaction)
+  cacheStats: CacheStats;
+  extractionReport: ExtractionReport | null; // Set if the parser removed headers/footers etc.
+  partialResult: PartialResultInfo | null; // Set if the run was aborted and the partial result kept
+  budgetPause: BudgetPauseInfo | null;  // Set while processing waits for the budget confirmation
+  auditLog: AuditLog | null;            // Set if the run records an audit log (options.auditLog)
   // Meditation Mode specific state
   processingMode: ProcessingMode;       // Current processing mode
   detectedPauses: DetectedPause[];      // Pauses detected in meditation mode
@@ -95,12 +347,23 @@ export type AppAction =
   | { type: 'RESET' }
   | { type: 'START_EXTRACTION'; payload: { fileName: string } }
   | { type: 'UPDATE_EXTRACTION_PROGRESS'; payload: { progress: number; etr: string } }
-  | { type: 'EXTRACTION_SUCCESS'; payload: { rawText: string } }
+  | { type: 'EXTRACTION_SUCCESS'; payload: { rawText: string; extractionReport?: ExtractionReport | null } }
   | { type: 'SET_ERROR'; payload: { message: string } }
   | { type: 'START_CLEANING'; payload: { rawText: string; totalChunks: number } }
+  | { type: 'RESUME_CLEANING'; payload: { job: CleaningJob } }
   | { type: 'UPDATE_CLEANING_PROGRESS'; payload: { progress: number; etr: string; currentChunk: number } }
   | { type: 'UPDATE_TOKEN_USAGE'; payload: TokenUsage }
+  | { type: 'ADD_SUSPICIOUS_CHUNK'; payload: SuspiciousChunk }
+  | { type: 'ADD_INVARIANT_REPORT'; payload: ChunkInvariantReport }
+  | { type: 'ADD_EDIT_LOG'; payload: ChunkEditLog }
+  | { type: 'ADD_REDACTION_LOG'; payload: ChunkRedactionLog }
+  | { type: 'START_AUDIT_LOG'; payload: { options: CleaningOptions } }
+  | { type: 'ADD_AUDIT_RECORD'; payload: ChunkAuditRecord }
+  | { type: 'RECORD_CACHE_HIT'; payload: { savedTokens: number } }
+  | { type: 'BUDGET_PAUSE'; payload: BudgetPauseInfo }
+  | { type: 'BUDGET_RESUME' }
   | { type: 'CLEANING_SUCCESS'; payload: { cleanedText: string } }
+  | { type: 'KEEP_PARTIAL_RESULT'; payload: { cleanedText: string; info: PartialResultInfo } }
   | { type: 'START_SUMMARY' }
   | { type: 'SUMMARY_SUCCESS'; payload: { summary: DetailedAction[] } }
   | { type: 'SUMMARY_ERROR' }